@@ -0,0 +1,208 @@
+import { createWriteStream } from "node:fs";
+import { parseArgs } from "node:util";
+import { NETWORKS, DEFAULT_NETWORK_ID } from "../src/chain";
+import {
+  fetchGenesisTokens,
+  streamFactoryTokens,
+  buildTree,
+  fetchPairLiquidity,
+  groupQuoteUpdates,
+  applyQuoteUpdates,
+  verifyChainId,
+  type BlockRange,
+  type QuoteTokenChange,
+  type TokenInfo,
+  type TokenNode,
+} from "../src/fetchTokens";
+import { compileFilter, EMPTY_FILTER, matchesExcluded, parseFilter } from "../src/filters";
+import { computePrices } from "../src/pricing";
+import { formatExact } from "../src/units";
+
+// ── Headless export of the token tree ─────────────────────────────
+//
+//   npm run export -- --network testnet --min-tvl 1000 --exclude "TEST*" --format csv --out tokens.csv
+
+type Format = "json" | "csv" | "ndjson";
+
+const USAGE = `Usage: npm run export -- [options]
+
+  --network <id>     ${Object.keys(NETWORKS).join(" | ")} (default: ${DEFAULT_NETWORK_ID})
+  --min-tvl <n>      hide tokens below this PathUSD TVL, keeping ancestors connected
+  --exclude <list>   comma-separated symbols to drop; * is a wildcard
+  --filter <json>    filter rules, as in the app's ?filter= share parameter
+  --format <fmt>     json (nested tree) | csv | ndjson (flat token list) (default: json)
+  --out <file>       write here instead of stdout
+  --help             show this message`;
+
+function fail(message: string): never {
+  process.stderr.write(`${message}\n\n${USAGE}\n`);
+  process.exit(1);
+}
+
+interface FlatToken {
+  address: string;
+  symbol: string;
+  name: string;
+  currency: string;
+  quoteToken: string;
+  depth: number;
+  /** Exact whole-token amount as a decimal string. */
+  totalSupply: string;
+  decimals: number;
+  price: number;
+  tvl: number;
+  children: number;
+}
+
+function flatten(root: TokenNode): FlatToken[] {
+  const rows: FlatToken[] = [];
+  function walk(node: TokenNode, depth: number) {
+    rows.push({
+      address: node.address,
+      symbol: node.symbol,
+      name: node.name,
+      currency: node.currency,
+      quoteToken: node.quoteToken,
+      depth,
+      totalSupply: formatExact(node.totalSupply, node.decimals),
+      decimals: node.decimals,
+      price: node.price,
+      tvl: node.tvl,
+      children: node.children.length,
+    });
+    node.children.forEach((c) => walk(c, depth + 1));
+  }
+  walk(root, 0);
+  return rows;
+}
+
+const CSV_COLUMNS: (keyof FlatToken)[] = [
+  "address",
+  "symbol",
+  "name",
+  "currency",
+  "quoteToken",
+  "depth",
+  "totalSupply",
+  "decimals",
+  "price",
+  "tvl",
+  "children",
+];
+
+function csvCell(value: string | number): string {
+  const str = String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/** Write bigint supplies as exact decimal strings, using the decimals of the node that holds them. */
+function supplyReplacer(this: { decimals?: number }, key: string, value: unknown): unknown {
+  if (typeof value !== "bigint") return value;
+  return key === "totalSupply" && this.decimals !== undefined ? formatExact(value, this.decimals) : value.toString();
+}
+
+function serialize(format: Format, root: TokenNode, meta: Record<string, unknown>): string {
+  if (format === "json") return JSON.stringify({ ...meta, root }, supplyReplacer, 2) + "\n";
+  const rows = flatten(root);
+  if (format === "ndjson") return rows.map((r) => JSON.stringify(r)).join("\n") + "\n";
+  return [CSV_COLUMNS.join(","), ...rows.map((r) => CSV_COLUMNS.map((c) => csvCell(r[c])).join(","))].join("\n") + "\n";
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      network: { type: "string", default: DEFAULT_NETWORK_ID },
+      "min-tvl": { type: "string", default: "0" },
+      exclude: { type: "string", default: "" },
+      filter: { type: "string" },
+      format: { type: "string", default: "json" },
+      out: { type: "string" },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+
+  if (!Object.hasOwn(NETWORKS, values.network)) fail(`Unknown network "${values.network}"`);
+  const network = NETWORKS[values.network];
+
+  const minTvl = parseFloat(values["min-tvl"]);
+  if (!Number.isFinite(minTvl) || minTvl < 0) fail(`Invalid --min-tvl "${values["min-tvl"]}"`);
+
+  const format = values.format as Format;
+  if (!["json", "csv", "ndjson"].includes(format)) fail(`Unknown format "${values.format}"`);
+
+  const excluded = values.exclude.split(",").map((s) => s.trim()).filter(Boolean);
+
+  let spec = EMPTY_FILTER;
+  if (values.filter) {
+    try {
+      spec = parseFilter(values.filter);
+    } catch (err) {
+      fail(`Invalid --filter: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  await verifyChainId(network);
+  process.stderr.write(`Fetching genesis tokens from ${network.label}...\n`);
+  const tokens: TokenInfo[] = await fetchGenesisTokens(network);
+  const quoteUpdates = new Map<string, QuoteTokenChange[]>();
+  const failedRanges: BlockRange[] = [];
+  let latestBlock = 0;
+
+  await streamFactoryTokens(
+    network,
+    (newTokens, progress) => {
+      tokens.push(...newTokens);
+      process.stderr.write(`\r\x1b[K${progress}`);
+    },
+    (block) => {
+      latestBlock = block;
+      process.stderr.write("\n");
+    },
+    {
+      onQuoteUpdates: (updates) => groupQuoteUpdates(updates, quoteUpdates),
+      onRangeError: (range) => failedRanges.push(range),
+    },
+  );
+  // A partial export would look complete to downstream jobs, so refuse to write one
+  if (failedRanges.length > 0) {
+    const list = failedRanges.map((r) => `  blocks ${r.from}-${r.to}`).join("\n");
+    throw new Error(`${failedRanges.length} block ranges failed after retries:\n${list}`);
+  }
+
+  const allTokens = applyQuoteUpdates(tokens, quoteUpdates);
+  process.stderr.write("Reading DEX prices...\n");
+  const liquidity = await fetchPairLiquidity(network, allTokens);
+  const prices = computePrices(allTokens, liquidity);
+
+  const filtered = allTokens.filter((t) => !matchesExcluded(t.symbol, excluded));
+  const { root, tokenCount, visibleCount } = buildTree(filtered, minTvl, prices, compileFilter(spec, filtered));
+  process.stderr.write(`${visibleCount.toLocaleString()} of ${tokenCount.toLocaleString()} tokens at block ${latestBlock.toLocaleString()}\n`);
+
+  const output = serialize(format, root, {
+    network: network.id,
+    blockNumber: latestBlock,
+    minTvl,
+    excluded,
+    filter: spec.groups,
+    tokenCount,
+    visibleCount,
+  });
+  if (values.out) {
+    const stream = createWriteStream(values.out);
+    stream.end(output);
+    await new Promise<void>((resolve, reject) => stream.on("finish", resolve).on("error", reject));
+    process.stderr.write(`Wrote ${values.out}\n`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+main().catch((err) => {
+  process.stderr.write(`\n${err instanceof Error ? err.message : String(err)}\n`);
+  process.exit(1);
+});
@@ -1,25 +1,99 @@
-import { useEffect, useState, useCallback, useRef, useMemo } from "react";
-import TreeGraph from "./TreeGraph";
+import { useEffect, useState, useCallback, useRef, useMemo, type ReactNode } from "react";
+import { getAddress, isAddress } from "viem";
+import TreeGraph, { type EdgeMetric } from "./TreeGraph";
+import TreeMap from "./TreeMap";
 import {
-  fetchGenesisTokens,
-  streamFactoryTokens,
+  fetchTokenState,
+  fetchPairLiquidity,
+  watchFactoryTokens,
   buildTree,
   type TokenInfo,
   type TokenNode,
+  type PairLiquidity,
+  type BlockRange,
 } from "./fetchTokens";
-import { NETWORKS, type NetworkId } from "./chain";
+import {
+  getNetworks,
+  saveCustomNetwork,
+  removeCustomNetwork,
+  DEFAULT_NETWORK_ID,
+  type NetworkId,
+  type NetworkSpec,
+  specFromNetwork,
+} from "./chain";
+import { formatAmount } from "./format";
+import { findRoute } from "./routes";
+import { DEFAULT_FX_RATES, parseFxOverrides, formatFxOverrides } from "./pricing";
+import RoutePanel from "./RoutePanel";
+import TokenPanel from "./TokenPanel";
+import TimeTravel from "./TimeTravel";
+import ComparePanel from "./ComparePanel";
+import StatsDashboard from "./StatsDashboard";
+import FilterDialog from "./FilterDialog";
+import TokenTable from "./TokenTable";
+import TokenSearch from "./TokenSearch";
+import NetworkDialog from "./NetworkDialog";
+import {
+  wildcardToRegex,
+  isWildcard,
+  matchesExcluded,
+  countRules,
+  parseFilter,
+  serializeFilter,
+  EMPTY_FILTER,
+  type FilterSpec,
+} from "./filters";
+import { createSnapshot, downloadSnapshot, fetchSnapshot, parseSnapshot, type TokenSnapshot } from "./snapshot";
+import { applyTreeDiff } from "./treeDiff";
+import { createTreeWorker, mergeTokens, type TreeWorker } from "./treeWorkerClient";
+import type { CompareBase } from "./treeWorker";
+import type { TokenComparison } from "./compare";
 
 // ── URL params ────────────────────────────────────────────────────
 
-function parseInitialParams(): { minTvl: number; excluded: string[]; network: NetworkId } {
+type ViewMode = "graph" | "treemap" | "table";
+
+const VIEW_OPTIONS = [
+  { value: "graph", label: "Radial tree" },
+  { value: "treemap", label: "Treemap" },
+  { value: "table", label: "Table" },
+] as const;
+
+function parseInitialParams(): {
+  minTvl: number;
+  excluded: string[];
+  filter: FilterSpec;
+  network: NetworkId;
+  fxOverrides: Record<string, number>;
+  view: ViewMode;
+  snapshot: string | null;
+  focus: string | null;
+} {
   const params = new URLSearchParams(window.location.search);
   const tvl = parseFloat(params.get("minTvl") || "0");
   const exc = params.get("exclude");
   const net = params.get("network");
+  const fx = params.get("fx");
+  const focus = params.get("focus");
+  const view = params.get("view");
+  let filter = EMPTY_FILTER;
+  const filterParam = params.get("filter");
+  if (filterParam) {
+    try {
+      filter = parseFilter(filterParam);
+    } catch (err) {
+      console.warn("Ignoring the filter parameter:", err);
+    }
+  }
   return {
     minTvl: Number.isFinite(tvl) && tvl > 0 ? tvl : 0,
     excluded: exc ? exc.split(",").filter(Boolean) : [],
-    network: net === "testnet" ? "testnet" : "mainnet",
+    filter,
+    network: net && Object.hasOwn(getNetworks(), net) ? net : DEFAULT_NETWORK_ID,
+    fxOverrides: fx ? parseFxOverrides(fx) : {},
+    view: view === "treemap" || view === "table" ? view : "graph",
+    snapshot: params.get("snapshot"),
+    focus: focus && isAddress(focus) ? getAddress(focus) : null,
   };
 }
 
@@ -53,15 +127,6 @@ function tvlToPosition(tvl: number, maxTvl: number): number {
   return Math.log10(tvl) / logMax;
 }
 
-function formatTvl(n: number): string {
-  if (n <= 0) return "0";
-  if (n >= 1_000_000_000) return `${(n / 1_000_000_000).toFixed(1)}B`;
-  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
-  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
-  if (n >= 1) return n.toFixed(0);
-  return n.toFixed(2);
-}
-
 function TvlSlider({
   value,
   maxTvl,
@@ -111,7 +176,7 @@ function TvlSlider({
           fontVariantNumeric: "tabular-nums",
         }}
       >
-        {value <= 0 ? "Off" : `${formatTvl(value)}`}
+        {value <= 0 ? "Off" : formatAmount(value)}
       </span>
     </div>
   );
@@ -170,31 +235,6 @@ function countCurrencies(node: TokenNode): Map<string, number> {
   return map;
 }
 
-// ── Wildcard helpers ──────────────────────────────────────────────
-
-/** Convert a wildcard pattern (e.g. "A*") to a RegExp that matches the full string. */
-function wildcardToRegex(pattern: string): RegExp {
-  // Escape regex special chars except *, then convert * to .*
-  const escaped = pattern.replace(/([.+?^${}()|[\]\\])/g, "\\$1").replace(/\*/g, ".*");
-  return new RegExp(`^${escaped}$`, "i");
-}
-
-function isWildcard(pattern: string): boolean {
-  return pattern.includes("*");
-}
-
-/** Test if a symbol matches any of the excluded patterns (exact or wildcard). */
-function matchesExcluded(symbol: string, patterns: string[]): boolean {
-  for (const p of patterns) {
-    if (isWildcard(p)) {
-      if (wildcardToRegex(p).test(symbol)) return true;
-    } else {
-      if (symbol.toLowerCase() === p.toLowerCase()) return true;
-    }
-  }
-  return false;
-}
-
 // ── Token Exclude Filter ──────────────────────────────────────────
 
 function TokenFilter({
@@ -389,115 +429,694 @@ function TokenFilter({
   );
 }
 
+// ── Segmented control ─────────────────────────────────────────────
+
+function SegmentedControl<T extends string>({
+  options,
+  value,
+  onChange,
+  disabled = false,
+}: {
+  options: readonly { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        borderRadius: "8px",
+        border: "1px solid #334155",
+        overflow: "hidden",
+        opacity: disabled ? 0.5 : 1,
+      }}
+    >
+      {options.map((opt) => (
+        <button
+          key={opt.value}
+          onClick={() => onChange(opt.value)}
+          disabled={disabled}
+          style={{
+            padding: "6px 12px",
+            border: "none",
+            background: value === opt.value ? "#3b82f6" : "#1e293b",
+            color: value === opt.value ? "#fff" : "#64748b",
+            cursor: disabled ? "default" : "pointer",
+            fontSize: "12px",
+            fontWeight: value === opt.value ? 600 : 400,
+            whiteSpace: "nowrap",
+            transition: "background 0.2s, color 0.2s",
+          }}
+        >
+          {opt.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+const EDGE_METRIC_OPTIONS = [
+  { value: "supply", label: "TVL" },
+  { value: "liquidity", label: "DEX liquidity" },
+] as const;
+
+// ── Radial tree folding ───────────────────────────────────────────
+
+const DEPTH_OPTIONS = [
+  { value: "all", label: "All" },
+  { value: "1", label: "1" },
+  { value: "2", label: "2" },
+  { value: "3", label: "3" },
+  { value: "4", label: "4" },
+] as const;
+
+type DepthOption = (typeof DEPTH_OPTIONS)[number]["value"];
+
+const OTHERS_OPTIONS = [
+  { value: "0", label: "Off" },
+  { value: "100", label: "<$100" },
+  { value: "1000", label: "<$1K" },
+  { value: "10000", label: "<$10K" },
+] as const;
+
+type OthersOption = (typeof OTHERS_OPTIONS)[number]["value"];
+
+function LabeledControl({ label, title, children }: { label: string; title: string; children: ReactNode }) {
+  return (
+    <div title={title} style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+      <span style={{ color: "#64748b", fontSize: "11px", whiteSpace: "nowrap" }}>{label}</span>
+      {children}
+    </div>
+  );
+}
+
+// ── Live mode ─────────────────────────────────────────────────────
+
+const LIVE_SUPPLY_REFRESH_MS = 30_000;
+
+function collectNodes(node: TokenNode, out: TokenNode[] = []): TokenNode[] {
+  out.push(node);
+  node.children.forEach((c) => collectNodes(c, out));
+  return out;
+}
+
+function LiveControl({
+  live,
+  paused,
+  block,
+  onToggleLive,
+  onTogglePaused,
+}: {
+  live: boolean;
+  paused: boolean;
+  block: number | null;
+  onToggleLive: () => void;
+  onTogglePaused: () => void;
+}) {
+  const buttonStyle = {
+    padding: "6px 12px",
+    border: "none",
+    cursor: "pointer",
+    fontSize: "12px",
+    whiteSpace: "nowrap" as const,
+  };
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        borderRadius: "8px",
+        border: "1px solid #334155",
+        overflow: "hidden",
+        background: "#1e293b",
+      }}
+    >
+      <button
+        onClick={onToggleLive}
+        title={live ? "Stop watching new blocks" : "Watch new blocks for tokens and supply changes"}
+        style={{ ...buttonStyle, background: live ? "#3b82f6" : "#1e293b", color: live ? "#fff" : "#64748b", fontWeight: live ? 600 : 400 }}
+      >
+        Live
+      </button>
+      {live && (
+        <>
+          <span style={{ display: "flex", alignItems: "center", gap: "5px", padding: "0 10px", fontSize: "11px", color: "#94a3b8", fontVariantNumeric: "tabular-nums" }}>
+            <span style={{ width: 7, height: 7, borderRadius: "50%", background: paused ? "#64748b" : "#22c55e" }} />
+            {paused ? "paused" : "live"}
+            {block !== null && <> &middot; block #{block.toLocaleString()}</>}
+          </span>
+          <button
+            onClick={onTogglePaused}
+            style={{ ...buttonStyle, background: "#1e293b", color: "#94a3b8", borderLeft: "1px solid #334155" }}
+          >
+            {paused ? "Resume" : "Pause"}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+/** Shown when parts of the scan failed after retries, so the map is known to be incomplete. */
+function FailedWorkControl({
+  ranges,
+  tokens,
+  retrying,
+  onRetry,
+}: {
+  ranges: BlockRange[];
+  tokens: string[];
+  retrying: boolean;
+  onRetry: () => void;
+}) {
+  const parts = [
+    ranges.length > 0 && `${ranges.length} block range${ranges.length === 1 ? "" : "s"}`,
+    tokens.length > 0 && `${tokens.length} token${tokens.length === 1 ? "" : "s"}`,
+  ].filter(Boolean);
+  const detail = ranges.map((r) => `blocks ${r.from.toLocaleString()}-${r.to.toLocaleString()}`).join("\n");
+  return (
+    <button
+      onClick={onRetry}
+      disabled={retrying}
+      title={`Failed after retries:\n${detail}${tokens.length > 0 ? `\nstate of ${tokens.length} cached tokens` : ""}`}
+      style={{
+        padding: "6px 12px",
+        borderRadius: "8px",
+        border: "1px solid #78350f",
+        background: "#1e293b",
+        color: "#fbbf24",
+        cursor: retrying ? "default" : "pointer",
+        fontSize: "12px",
+        fontWeight: 500,
+        whiteSpace: "nowrap",
+      }}
+    >
+      {retrying ? "Retrying..." : `\u26a0 Retry failed ${parts.join(" + ")}`}
+    </button>
+  );
+}
+
+// ── Time travel ───────────────────────────────────────────────────
+
+// Playback covers the whole history in this many frames, each held at least PLAY_FRAME_MS
+const PLAY_FRAMES = 60;
+const PLAY_FRAME_MS = 400;
+
+// ── Stats dashboard ───────────────────────────────────────────────
+
+const STATS_WIDTH = 340;
+const STATS_GAP = 12;
+
+// ── Snapshots ─────────────────────────────────────────────────────
+
+const headerButtonStyle = {
+  padding: "6px 12px",
+  borderRadius: "8px",
+  border: "1px solid #334155",
+  background: "#1e293b",
+  color: "#94a3b8",
+  cursor: "pointer",
+  fontSize: "12px",
+  fontWeight: 500,
+  whiteSpace: "nowrap" as const,
+};
+
+function SnapshotControls({
+  canExport,
+  replaying,
+  onExport,
+  onImport,
+  onExitReplay,
+}: {
+  canExport: boolean;
+  replaying: boolean;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onExitReplay: () => void;
+}) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  return (
+    <div style={{ display: "flex", gap: "6px" }}>
+      <button
+        onClick={onExport}
+        disabled={!canExport}
+        title="Download the current tokens as a snapshot file"
+        style={{ ...headerButtonStyle, color: canExport ? "#94a3b8" : "#475569", cursor: canExport ? "pointer" : "default" }}
+      >
+        Export
+      </button>
+      <button onClick={() => fileRef.current?.click()} title="Replay a snapshot file offline" style={headerButtonStyle}>
+        Import
+      </button>
+      {replaying && (
+        <button onClick={onExitReplay} title="Leave replay and load live data" style={{ ...headerButtonStyle, color: "#fbbf24" }}>
+          Exit replay
+        </button>
+      )}
+      <input
+        ref={fileRef}
+        type="file"
+        accept="application/json,.json"
+        style={{ display: "none" }}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = "";
+        }}
+      />
+    </div>
+  );
+}
+
+// ── Tree ──────────────────────────────────────────────────────────
+
+type TreeResult = Pick<ReturnType<typeof buildTree>, "root" | "tokenCount" | "visibleCount">;
+
+// Stands in for the worker's tree until the first one arrives
+const EMPTY_TREE: TreeResult = buildTree([]);
+
 // ── App ───────────────────────────────────────────────────────────
 
 export default function App() {
   const [initialParams] = useState(parseInitialParams);
   const [allTokens, setAllTokens] = useState<TokenInfo[]>([]);
-  const [progress, setProgress] = useState("Initializing...");
+  const [progress, setProgress] = useState(() => (initialParams.snapshot ? "Loading snapshot..." : "Initializing..."));
   const [done, setDone] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [minTvl, setMinTvl] = useState(initialParams.minTvl);
   const [excluded, setExcluded] = useState<string[]>(initialParams.excluded);
+  const [filterSpec, setFilterSpec] = useState<FilterSpec>(initialParams.filter);
+  const [filterDialogOpen, setFilterDialogOpen] = useState(false);
+  const [networks, setNetworks] = useState(getNetworks);
   const [networkId, setNetworkId] = useState<NetworkId>(initialParams.network);
+  const [networkDialogOpen, setNetworkDialogOpen] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [live, setLive] = useState(false);
+  const [livePaused, setLivePaused] = useState(false);
+  const [liveBlock, setLiveBlock] = useState<number | null>(null);
+  const [liquidity, setLiquidity] = useState<Map<string, PairLiquidity>>(new Map());
+  const [edgeMetric, setEdgeMetric] = useState<EdgeMetric>("supply");
+  const [maxDepth, setMaxDepth] = useState<DepthOption>("all");
+  const [othersBelow, setOthersBelow] = useState<OthersOption>("1000");
+  const fxOverrides = initialParams.fxOverrides;
+  const [view, setView] = useState<ViewMode>(initialParams.view);
+  // Selected token in the radial tree / zoomed group in the treemap, shared across views
+  const [selectedAddress, setSelectedAddress] = useState<string | null>(initialParams.focus);
+  // Token the radial tree should fly to; the key makes repeated searches for one token fly again
+  const [focusRequest, setFocusRequest] = useState<{ address: string; key: number } | null>(() =>
+    initialParams.focus ? { address: initialParams.focus, key: 0 } : null,
+  );
+  const [routeMode, setRouteMode] = useState(false);
+  const [routeEnds, setRouteEnds] = useState<{ from: string | null; to: string | null }>({ from: null, to: null });
+  // Replay mode: render a snapshot without touching the RPC
+  const [replay, setReplay] = useState<TokenSnapshot | null>(null);
+  const [replayUrl, setReplayUrl] = useState<string | null>(initialParams.snapshot);
+  // Work that still failed after the transport's retries, kept until retried
+  const [failedRanges, setFailedRanges] = useState<BlockRange[]>([]);
+  const [failedTokens, setFailedTokens] = useState<string[]>([]);
+  const [retrying, setRetrying] = useState(false);
+  // Latest tree from the worker; null while a new token list is loading
+  const [tree, setTree] = useState<TreeResult | null>(null);
+  const [maxTvl, setMaxTvl] = useState(0);
+  // Unique token symbols for autocomplete suggestions
+  const [tokenSymbols, setTokenSymbols] = useState<string[]>([]);
+  // Time travel: block the tree is rebuilt at (null for the latest state), and the block of the tree shown
+  const [asOfBlock, setAsOfBlock] = useState<number | null>(null);
+  const [shownAsOf, setShownAsOf] = useState<number | null>(null);
+  const [unreadSupplies, setUnreadSupplies] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [syncedBlock, setSyncedBlock] = useState(0);
+  // Compare mode: the baseline every tree is compared with, and the latest comparison
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [compareBase, setCompareBase] = useState<{ label: string; base: CompareBase } | null>(null);
+  const [comparison, setComparison] = useState<TokenComparison | null>(null);
+  const [statsOpen, setStatsOpen] = useState(false);
   const { width, height } = useWindowSize();
 
-  // Accumulate tokens in a ref; periodically flush into state
-  const pendingRef = useRef<TokenInfo[]>([]);
-  const flushTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Address index of the current tree, patched by every diff from the worker
+  const treeIndexRef = useRef<Map<string, TokenNode>>(new Map());
+  // Id of the newest filter inputs sent to the worker; trees built from older ones are not shown
+  const buildIdRef = useRef(0);
+  const workerRef = useRef<TreeWorker | null>(null);
+  // Id of the worker's current load or replay; live-mode reads are tagged with the one they started under
+  const loadIdRef = useRef(0);
+  // Tokens whose DEX pair has already been requested for this network
+  const liquidityFetchedRef = useRef<Set<string>>(new Set());
+  // Last block covered by the scan (and by live mode once it is running)
+  const syncedBlockRef = useRef(0);
+
+  const network = Object.hasOwn(networks, networkId) ? networks[networkId] : networks[DEFAULT_NETWORK_ID];
+
+  // Scanning, log decoding and tree building run in a worker so the filters stay responsive
+  useEffect(() => {
+    const worker = createTreeWorker((event) => {
+      switch (event.type) {
+        case "loadStarted":
+          setError(null);
+          setDone(false);
+          setTree(null);
+          setLiveBlock(null);
+          setLiquidity(new Map());
+          liquidityFetchedRef.current = new Set();
+          setFailedRanges([]);
+          setFailedTokens([]);
+          setRetrying(false);
+          setAsOfBlock(null);
+          setPlaying(false);
+          setCompareBase(null);
+          setComparison(null);
+          break;
+        case "progress":
+          setProgress(event.message);
+          break;
+        case "tokens":
+          setAllTokens((prev) => mergeTokens(prev, event));
+          break;
+        case "tree": {
+          // Diffs build on each other, so every one is applied; only trees for the latest inputs are shown
+          const root = applyTreeDiff(treeIndexRef.current, event.diff);
+          setMaxTvl(event.maxTvl);
+          if (event.symbols) setTokenSymbols(event.symbols);
+          if (event.buildId !== buildIdRef.current) break;
+          setTree({ root, tokenCount: event.tokenCount, visibleCount: event.visibleCount });
+          setShownAsOf(event.asOf);
+          setUnreadSupplies(event.unreadSupplies);
+          setComparison(event.comparison);
+          break;
+        }
+        case "rangesFailed":
+          setFailedRanges((prev) => [...prev, ...event.ranges]);
+          break;
+        case "tokensFailed":
+          setFailedTokens((prev) => [...new Set([...prev, ...event.addresses])]);
+          break;
+        case "done":
+          syncedBlockRef.current = event.latestBlock;
+          setSyncedBlock(event.latestBlock);
+          setDone(true);
+          break;
+        case "retried":
+          setRetrying(false);
+          break;
+        case "error":
+          setError(event.message);
+          break;
+      }
+    });
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // Each change to the filter inputs gets a new build id
+  useEffect(() => {
+    buildIdRef.current += 1;
+    workerRef.current?.post({ type: "build", id: buildIdRef.current, minTvl, excluded, spec: filterSpec });
+  }, [minTvl, excluded, filterSpec]);
+
+  useEffect(() => {
+    buildIdRef.current += 1;
+    workerRef.current?.post({
+      type: "pricing",
+      id: buildIdRef.current,
+      liquidity,
+      fxRates: { ...DEFAULT_FX_RATES, ...fxOverrides },
+    });
+  }, [liquidity, fxOverrides]);
+
+  useEffect(() => {
+    buildIdRef.current += 1;
+    workerRef.current?.post({ type: "asOf", id: buildIdRef.current, block: asOfBlock });
+  }, [asOfBlock]);
+
+  useEffect(() => {
+    buildIdRef.current += 1;
+    workerRef.current?.post({ type: "compare", id: buildIdRef.current, base: compareBase?.base ?? null });
+  }, [compareBase]);
+
+  // Replaces (and cancels) whatever the worker was loading before; it resets the UI state with "loadStarted"
+  const load = useCallback(
+    (rescan = false) => {
+      loadIdRef.current += 1;
+      workerRef.current?.post({ type: "load", loadId: loadIdRef.current, network: specFromNetwork(network), rescan });
+    },
+    [network],
+  );
+
+  /** Re-run the block ranges and token state reads that failed; the worker also updates the cache. */
+  const retryFailed = useCallback(() => {
+    setRetrying(true);
+    setFailedRanges([]);
+    setFailedTokens([]);
+    workerRef.current?.post({ type: "retry", ranges: failedRanges, tokens: failedTokens });
+  }, [failedRanges, failedTokens]);
+
+  const rescan = useCallback(() => load(true), [load]);
 
-  const flush = useCallback(() => {
-    if (pendingRef.current.length === 0) return;
-    const batch = pendingRef.current;
-    pendingRef.current = [];
-    setAllTokens((prev) => [...prev, ...batch]);
+  const enterReplay = useCallback((snapshot: TokenSnapshot) => {
+    setReplay(snapshot);
+    setNetworkId(snapshot.networkId);
+    setAllTokens(snapshot.tokens);
+    loadIdRef.current += 1;
+    workerRef.current?.post({ type: "replace", loadId: loadIdRef.current, tokens: snapshot.tokens });
+    setLiquidity(new Map());
+    setLive(false);
+    setError(null);
+    setFailedRanges([]);
+    setFailedTokens([]);
+    setAsOfBlock(null);
+    setPlaying(false);
+    setCompareOpen(false);
+    setCompareBase(null);
+    setComparison(null);
+    setDone(true);
   }, []);
 
-  const scheduleFlush = useCallback(() => {
-    if (flushTimer.current) return;
-    flushTimer.current = setTimeout(() => {
-      flushTimer.current = null;
-      flush();
-    }, 600);
-  }, [flush]);
+  const importSnapshot = useCallback(
+    (file: File) => {
+      file
+        .text()
+        .then(parseSnapshot)
+        .then((snapshot) => {
+          setReplayUrl(null);
+          enterReplay(snapshot);
+        })
+        .catch((err) => setError(err instanceof Error ? err.message : String(err)));
+    },
+    [enterReplay],
+  );
 
-  const network = NETWORKS[networkId];
+  function exportSnapshot() {
+    const blockNumber = replay ? replay.blockNumber : syncedBlockRef.current;
+    downloadSnapshot(createSnapshot(network.id, blockNumber, allTokens));
+  }
 
-  const load = useCallback(async () => {
-    try {
-      setError(null);
-      setDone(false);
-      setAllTokens([]);
-      pendingRef.current = [];
-
-      setProgress("Fetching genesis tokens...");
-      const genesis = await fetchGenesisTokens(network);
-      setAllTokens(genesis);
-
-      setProgress("Streaming factory tokens...");
-      await streamFactoryTokens(
-        network,
-        (newTokens, progressMsg) => {
-          setProgress(progressMsg);
-          if (newTokens.length > 0) {
-            pendingRef.current.push(...newTokens);
-            scheduleFlush();
-          }
-        },
-        () => {
-          // Final flush
-          if (flushTimer.current) {
-            clearTimeout(flushTimer.current);
-            flushTimer.current = null;
-          }
-          flush();
-          setDone(true);
-        },
-      );
-    } catch (err) {
-      setError(err instanceof Error ? err.message : String(err));
-    }
-  }, [flush, scheduleFlush, network]);
+  function exitReplay() {
+    setReplay(null);
+    setReplayUrl(null);
+  }
 
   useEffect(() => {
+    if (replayUrl && !replay) {
+      fetchSnapshot(replayUrl)
+        .then(enterReplay)
+        .catch((err) => setError(err instanceof Error ? err.message : String(err)));
+      return;
+    }
+    if (replay) return;
     load();
-  }, [load]);
+    return () => workerRef.current?.post({ type: "cancel" });
+  }, [load, replay, replayUrl, enterReplay]);
 
-  // Compute max TVL across all tokens (for slider range)
-  const maxTvl = useMemo(() => {
-    let max = 0;
-    for (const t of allTokens) {
-      if (t.totalSupply > max) max = t.totalSupply;
-    }
-    return max;
-  }, [allTokens]);
+  // Live mode: append tokens from new blocks as they are produced
+  useEffect(() => {
+    if (!done || !live || livePaused || replay) return;
+    const loadId = loadIdRef.current;
+    const controller = new AbortController();
+    watchFactoryTokens(
+      network,
+      syncedBlockRef.current + 1,
+      (newTokens) => workerRef.current?.post({ type: "addTokens", loadId, tokens: newTokens }),
+      (blockNumber) => {
+        syncedBlockRef.current = blockNumber;
+        setLiveBlock(blockNumber);
+      },
+      {
+        onQuoteUpdates: (updates) => workerRef.current?.post({ type: "quoteUpdates", loadId, updates }),
+        signal: controller.signal,
+      },
+    );
+    return () => controller.abort();
+  }, [done, live, livePaused, network, replay]);
 
-  // Unique token symbols for autocomplete suggestions
-  const tokenSymbols = useMemo(() => {
-    const set = new Set<string>();
-    for (const t of allTokens) set.add(t.symbol);
-    return [...set].sort();
+  // Time travel spans from just before the first factory token to the newest synced block
+  const historyStart = useMemo(() => {
+    let first = Infinity;
+    for (const t of allTokens) if (t.createdBlock > 0 && t.createdBlock < first) first = t.createdBlock;
+    return Number.isFinite(first) ? first - 1 : 0;
   }, [allTokens]);
+  const historyEnd = Math.max(syncedBlock, liveBlock ?? 0);
+  const playStep = Math.max(1, Math.ceil((historyEnd - historyStart) / PLAY_FRAMES));
 
-  // Filter out excluded tokens (supports wildcard patterns like "A*")
-  const filteredTokens = useMemo(() => {
-    if (excluded.length === 0) return allTokens;
-    return allTokens.filter((t) => !matchesExcluded(t.symbol, excluded));
-  }, [allTokens, excluded]);
+  // Advance playback once the previous frame is on screen
+  useEffect(() => {
+    if (!playing || asOfBlock === null || shownAsOf !== asOfBlock) return;
+    const timer = setTimeout(() => {
+      if (asOfBlock >= historyEnd) setPlaying(false);
+      else setAsOfBlock(Math.min(historyEnd, asOfBlock + playStep));
+    }, PLAY_FRAME_MS);
+    return () => clearTimeout(timer);
+  }, [playing, asOfBlock, shownAsOf, historyEnd, playStep]);
 
-  const { root, tokenCount, visibleCount } = useMemo(
-    () => buildTree(filteredTokens, minTvl),
-    [filteredTokens, minTvl]
-  );
+  function togglePlay() {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    if (asOfBlock === null || asOfBlock >= historyEnd) setAsOfBlock(historyStart);
+    setPlaying(true);
+  }
+
+  function closeHistory() {
+    setAsOfBlock(null);
+    setPlaying(false);
+  }
+
+  function changeCompareBase(base: { label: string; base: CompareBase } | null) {
+    setCompareBase(base);
+    setComparison(null);
+  }
+
+  function closeCompare() {
+    setCompareOpen(false);
+    changeCompareBase(null);
+  }
+
+  const { root, tokenCount, visibleCount } = tree ?? EMPTY_TREE;
+  const filterRuleCount = countRules(filterSpec);
 
   const currencies = useMemo(() => countCurrencies(root), [root]);
+  const treeNodes = useMemo(() => collectNodes(root), [root]);
+
+  const route = useMemo(
+    () => (view === "graph" && routeMode && routeEnds.from && routeEnds.to ? findRoute(root, routeEnds.from, routeEnds.to) : null),
+    [view, routeMode, routeEnds, root],
+  );
+  const routePath = useMemo(() => route?.path.map((n) => n.address) ?? null, [route]);
+  const selectedNode = useMemo(
+    () => (selectedAddress ? treeNodes.find((n) => n.address.toLowerCase() === selectedAddress.toLowerCase()) ?? null : null),
+    [treeNodes, selectedAddress],
+  );
+
+  // In route mode, graph clicks pick the source, then the destination, then start over
+  const focusToken = useCallback((address: string) => {
+    setSelectedAddress(address);
+    setFocusRequest((prev) => ({ address, key: (prev?.key ?? 0) + 1 }));
+  }, []);
+
+  const showInGraph = useCallback(
+    (address: string) => {
+      setView("graph");
+      focusToken(address);
+    },
+    [focusToken],
+  );
+
+  const handleRouteClick = useCallback((address: string) => {
+    setRouteEnds((prev) => {
+      if (!prev.from) return { from: address, to: null };
+      if (!prev.to) return { ...prev, to: address };
+      return { from: address, to: null };
+    });
+  }, []);
+
+  // Live mode: periodically refresh supplies of the tokens currently in the tree
+  const visibleNodesRef = useRef<TokenNode[]>([]);
+  useEffect(() => {
+    visibleNodesRef.current = treeNodes;
+  }, [treeNodes]);
+
+  useEffect(() => {
+    if (!done || !live || livePaused || replay) return;
+    const loadId = loadIdRef.current;
+    const controller = new AbortController();
+    const timer = setInterval(() => {
+      fetchTokenState(network, visibleNodesRef.current.map((n) => n.address), { signal: controller.signal })
+        .then((states) => {
+          if (!controller.signal.aborted) workerRef.current?.post({ type: "tokenState", loadId, states });
+        })
+        .catch((err) => {
+          if (!controller.signal.aborted) console.error("Live supply refresh failed:", err);
+        });
+      fetchPairLiquidity(network, visibleNodesRef.current, controller.signal)
+        .then((fresh) => {
+          if (!controller.signal.aborted) setLiquidity((prev) => new Map([...prev, ...fresh]));
+        })
+        .catch((err) => {
+          if (!controller.signal.aborted) console.error("Live liquidity refresh failed:", err);
+        });
+    }, LIVE_SUPPLY_REFRESH_MS);
+    return () => {
+      clearInterval(timer);
+      controller.abort();
+    };
+  }, [done, live, livePaused, network, replay]);
+
+  // DEX liquidity for visible pairs, fetched once streaming completes and for
+  // tokens that become visible afterwards (e.g. when the TVL filter is lowered)
+  useEffect(() => {
+    if (!done || replay) return;
+    const missing = treeNodes.filter((n) => !liquidityFetchedRef.current.has(n.address.toLowerCase()));
+    if (missing.length === 0) return;
+    const keys = missing.map((t) => t.address.toLowerCase());
+    for (const key of keys) liquidityFetchedRef.current.add(key);
+    const controller = new AbortController();
+    let settled = false;
+    fetchPairLiquidity(network, missing, controller.signal)
+      .then((fresh) => {
+        if (!controller.signal.aborted && fresh.size > 0) setLiquidity((prev) => new Map([...prev, ...fresh]));
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) console.error("DEX liquidity fetch failed:", err);
+      })
+      .finally(() => {
+        settled = true;
+      });
+    return () => {
+      controller.abort();
+      // Superseded before it finished (e.g. the tree changed again): let the next run fetch these
+      if (!settled) for (const key of keys) liquidityFetchedRef.current.delete(key);
+    };
+  }, [done, treeNodes, network, replay]);
+
+  function connectCustomNetwork(spec: NetworkSpec) {
+    saveCustomNetwork(spec);
+    setNetworks(getNetworks());
+    setNetworkDialogOpen(false);
+    exitReplay();
+    setNetworkId(spec.id);
+  }
+
+  function removeNetwork(id: NetworkId) {
+    removeCustomNetwork(id);
+    setNetworks(getNetworks());
+    if (id === network.id) setNetworkId(DEFAULT_NETWORK_ID);
+  }
 
   function handleShare() {
     const params = new URLSearchParams();
-    if (networkId !== "mainnet") params.set("network", networkId);
+    if (network.id !== DEFAULT_NETWORK_ID) params.set("network", network.id);
+    if (view !== "graph") params.set("view", view);
     if (minTvl > 0) params.set("minTvl", minTvl.toFixed(2));
     if (excluded.length > 0) params.set("exclude", excluded.join(","));
+    if (filterSpec.groups.length > 0) params.set("filter", serializeFilter(filterSpec));
+    if (Object.keys(fxOverrides).length > 0) params.set("fx", formatFxOverrides(fxOverrides));
+    // Snapshots loaded from a URL can be shared; an imported file stays local
+    if (replay && replayUrl) params.set("snapshot", replayUrl);
+    if (selectedAddress) params.set("focus", selectedAddress);
     const qs = params.toString();
     const url = window.location.origin + window.location.pathname + (qs ? `?${qs}` : "");
     navigator.clipboard.writeText(url).then(() => {
@@ -506,21 +1125,23 @@ export default function App() {
     });
   }
 
-  const mapWidth = Math.max(width - 40, 600);
-  const mapHeight = Math.max(height - 170, 350);
+  // The stats dashboard takes a column beside the map
+  const mapWidth = Math.max(width - 40 - (statsOpen ? STATS_WIDTH + STATS_GAP : 0), 600);
+  // The time travel bar takes a row above the map
+  const mapHeight = Math.max(height - 170 - (asOfBlock !== null ? 40 : 0), 350);
 
   if (error) {
     return (
       <div style={{ display: "flex", alignItems: "center", justifyContent: "center", height: "100vh", flexDirection: "column", gap: "16px" }}>
         <div style={{ color: "#f87171", fontSize: "18px" }}>Error: {error}</div>
-        <button onClick={load} style={{ padding: "8px 16px", borderRadius: "6px", background: "#3b82f6", color: "#fff", border: "none", cursor: "pointer" }}>
+        <button onClick={() => load()} style={{ padding: "8px 16px", borderRadius: "6px", background: "#3b82f6", color: "#fff", border: "none", cursor: "pointer" }}>
           Retry
         </button>
       </div>
     );
   }
 
-  if (allTokens.length === 0) {
+  if (allTokens.length === 0 || !tree) {
     return (
       <div style={{ display: "flex", alignItems: "center", justifyContent: "center", height: "100vh", flexDirection: "column", gap: "16px" }}>
         <div className="spinner" />
@@ -540,18 +1161,136 @@ export default function App() {
           <div style={{ color: "#64748b", fontSize: "12px", marginTop: "2px" }}>
             {visibleCount.toLocaleString()} of {tokenCount.toLocaleString()} tokens shown
             {" "}&middot; {network.label}
+            {replay && (
+              <span style={{ color: "#fbbf24" }}>
+                {" "}&middot; Replay of block {replay.blockNumber.toLocaleString()} ({new Date(replay.timestamp).toLocaleString()})
+              </span>
+            )}
+            {shownAsOf !== null && (
+              <span style={{ color: "#60a5fa" }}>
+                {" "}&middot; As of block {shownAsOf.toLocaleString()}
+              </span>
+            )}
             {!done && <> &middot; {progress}</>}
-            {" "}&middot; Scroll to zoom, drag to pan
+            {" "}&middot; {view === "graph"
+              ? "Scroll to zoom, drag to pan"
+              : view === "treemap"
+                ? "Click a group to drill down"
+                : "Click a row to show it in the radial tree"}
           </div>
         </div>
         <div style={{ display: "flex", alignItems: "center", gap: "10px", flexWrap: "wrap" }}>
+          <SegmentedControl options={VIEW_OPTIONS} value={view} onChange={setView} />
+          <TokenSearch tokens={treeNodes} onSelect={focusToken} />
           <TokenFilter
             excluded={excluded}
             onAdd={(name) => setExcluded((prev) => prev.includes(name) ? prev : [...prev, name])}
             onRemove={(name) => setExcluded((prev) => prev.filter((n) => n !== name))}
             suggestions={tokenSymbols}
           />
+          <button
+            onClick={() => setFilterDialogOpen(true)}
+            title="Include or exclude tokens by symbol, name, address, currency, admin, quote token, creation block, supply or depth"
+            style={{
+              ...headerButtonStyle,
+              background: filterRuleCount > 0 ? "#3b82f6" : "#1e293b",
+              color: filterRuleCount > 0 ? "#fff" : "#94a3b8",
+            }}
+          >
+            {filterRuleCount > 0 ? `Filters (${filterRuleCount})` : "Filters"}
+          </button>
           <TvlSlider value={minTvl} maxTvl={maxTvl} onChange={setMinTvl} />
+          {view === "graph" && (
+            <SegmentedControl
+              options={EDGE_METRIC_OPTIONS}
+              value={edgeMetric}
+              onChange={setEdgeMetric}
+              disabled={liquidity.size === 0}
+            />
+          )}
+          {view === "graph" && (
+            <LabeledControl label="Depth" title="Collapse nodes below this depth (double-click a node to toggle it)">
+              <SegmentedControl options={DEPTH_OPTIONS} value={maxDepth} onChange={setMaxDepth} />
+            </LabeledControl>
+          )}
+          {view === "graph" && (
+            <LabeledControl label="Group" title="In large sibling groups, merge tokens below this TVL into one node">
+              <SegmentedControl options={OTHERS_OPTIONS} value={othersBelow} onChange={setOthersBelow} />
+            </LabeledControl>
+          )}
+          {view === "graph" && (
+            <button
+              onClick={() => setRouteMode((prev) => !prev)}
+              title="Find the swap route between two tokens"
+              style={{
+                padding: "6px 12px",
+                borderRadius: "8px",
+                border: "1px solid #334155",
+                background: routeMode ? "#3b82f6" : "#1e293b",
+                color: routeMode ? "#fff" : "#94a3b8",
+                cursor: "pointer",
+                fontSize: "12px",
+                fontWeight: routeMode ? 600 : 500,
+                whiteSpace: "nowrap",
+                transition: "background 0.2s, color 0.2s",
+              }}
+            >
+              Route
+            </button>
+          )}
+          {!replay && (
+            <button
+              onClick={() => (asOfBlock === null ? setAsOfBlock(historyEnd) : closeHistory())}
+              disabled={!done}
+              title="Rebuild the tree as of a past block"
+              style={{
+                ...headerButtonStyle,
+                background: asOfBlock !== null ? "#3b82f6" : "#1e293b",
+                color: asOfBlock !== null ? "#fff" : done ? "#94a3b8" : "#475569",
+                cursor: done ? "pointer" : "default",
+              }}
+            >
+              History
+            </button>
+          )}
+          {!replay && (
+            <button
+              onClick={() => (compareOpen ? closeCompare() : setCompareOpen(true))}
+              disabled={!done}
+              title="Compare the tree with a past block or a snapshot"
+              style={{
+                ...headerButtonStyle,
+                background: compareOpen ? "#3b82f6" : "#1e293b",
+                color: compareOpen ? "#fff" : done ? "#94a3b8" : "#475569",
+                cursor: done ? "pointer" : "default",
+              }}
+            >
+              Compare
+            </button>
+          )}
+          <button
+            onClick={() => setStatsOpen((prev) => !prev)}
+            title="Show charts of the filtered tree next to the map"
+            style={{
+              ...headerButtonStyle,
+              background: statsOpen ? "#3b82f6" : "#1e293b",
+              color: statsOpen ? "#fff" : "#94a3b8",
+            }}
+          >
+            Stats
+          </button>
+          {!replay && (
+            <LiveControl
+              live={live}
+              paused={livePaused}
+              block={liveBlock}
+              onToggleLive={() => {
+                setLive((prev) => !prev);
+                setLivePaused(false);
+              }}
+              onTogglePaused={() => setLivePaused((prev) => !prev)}
+            />
+          )}
           {/* Network toggle */}
           <div
             style={{
@@ -561,25 +1300,44 @@ export default function App() {
               overflow: "hidden",
             }}
           >
-            {(["mainnet", "testnet"] as const).map((net) => (
+            {Object.values(networks).map((net) => (
               <button
-                key={net}
-                onClick={() => setNetworkId(net)}
+                key={net.id}
+                onClick={() => {
+                  exitReplay();
+                  setNetworkId(net.id);
+                }}
+                title={net.rpcUrl}
                 style={{
                   padding: "6px 12px",
                   border: "none",
-                  background: networkId === net ? "#3b82f6" : "#1e293b",
-                  color: networkId === net ? "#fff" : "#64748b",
+                  background: network.id === net.id ? "#3b82f6" : "#1e293b",
+                  color: network.id === net.id ? "#fff" : "#64748b",
                   cursor: "pointer",
                   fontSize: "12px",
-                  fontWeight: networkId === net ? 600 : 400,
+                  fontWeight: network.id === net.id ? 600 : 400,
                   whiteSpace: "nowrap",
                   transition: "background 0.2s, color 0.2s",
                 }}
               >
-                {NETWORKS[net].label}
+                {net.label}
               </button>
             ))}
+            <button
+              onClick={() => setNetworkDialogOpen(true)}
+              title="Add a custom network"
+              style={{
+                padding: "6px 10px",
+                border: "none",
+                borderLeft: "1px solid #334155",
+                background: "#1e293b",
+                color: "#64748b",
+                cursor: "pointer",
+                fontSize: "12px",
+              }}
+            >
+              +
+            </button>
           </div>
           <button
             onClick={handleShare}
@@ -598,6 +1356,36 @@ export default function App() {
           >
             {copied ? "Copied!" : "Share"}
           </button>
+          <SnapshotControls
+            canExport={done && allTokens.length > 0}
+            replaying={replay !== null}
+            onExport={exportSnapshot}
+            onImport={importSnapshot}
+            onExitReplay={exitReplay}
+          />
+          {!replay && (
+            <button
+              onClick={rescan}
+              disabled={!done}
+              title="Clear the cached scan and rescan from block 0"
+              style={{
+                padding: "6px 12px",
+                borderRadius: "8px",
+                border: "1px solid #334155",
+                background: "#1e293b",
+                color: done ? "#94a3b8" : "#475569",
+                cursor: done ? "pointer" : "default",
+                fontSize: "12px",
+                fontWeight: 500,
+                whiteSpace: "nowrap",
+              }}
+            >
+              Rescan
+            </button>
+          )}
+          {!replay && (failedRanges.length > 0 || failedTokens.length > 0 || retrying) && (
+            <FailedWorkControl ranges={failedRanges} tokens={failedTokens} retrying={retrying} onRetry={retryFailed} />
+          )}
           {!done && (
             <div style={{ display: "flex", alignItems: "center", gap: "6px" }}>
               <div className="spinner" style={{ width: 14, height: 14, borderWidth: 2 }} />
@@ -607,9 +1395,117 @@ export default function App() {
         </div>
       </div>
 
+      {asOfBlock !== null && (
+        <TimeTravel
+          network={network}
+          minBlock={historyStart}
+          maxBlock={historyEnd}
+          block={asOfBlock}
+          shownBlock={shownAsOf}
+          unreadSupplies={unreadSupplies}
+          playing={playing}
+          onChange={(block) => {
+            setPlaying(false);
+            setAsOfBlock(block);
+          }}
+          onTogglePlay={togglePlay}
+          onClose={closeHistory}
+        />
+      )}
+
       <Legend currencies={currencies} />
 
-      <TreeGraph root={root} width={mapWidth} height={mapHeight} />
+      {filterDialogOpen && (
+        <FilterDialog
+          value={filterSpec}
+          onApply={(spec) => {
+            setFilterSpec(spec);
+            setFilterDialogOpen(false);
+          }}
+          onClose={() => setFilterDialogOpen(false)}
+        />
+      )}
+      {networkDialogOpen && (
+        <NetworkDialog
+          networks={networks}
+          onConnect={connectCustomNetwork}
+          onRemove={removeNetwork}
+          onClose={() => setNetworkDialogOpen(false)}
+        />
+      )}
+      <div style={{ display: "flex", gap: STATS_GAP, alignItems: "flex-start" }}>
+        {view === "treemap" ? (
+          <TreeMap
+            root={root}
+            width={mapWidth}
+            height={mapHeight}
+            focusAddress={selectedAddress}
+            onFocusChange={setSelectedAddress}
+          />
+        ) : view === "table" ? (
+          <TokenTable
+            root={root}
+            width={mapWidth}
+            height={mapHeight}
+            selectedAddress={selectedAddress}
+            onSelect={showInGraph}
+          />
+        ) : (
+          <div style={{ position: "relative" }}>
+            {routeMode && (
+              <RoutePanel
+                tokens={treeNodes}
+                from={routeEnds.from}
+                to={routeEnds.to}
+                route={route}
+                liquidity={liquidity}
+                onChangeFrom={(from) => setRouteEnds((prev) => ({ ...prev, from }))}
+                onChangeTo={(to) => setRouteEnds((prev) => ({ ...prev, to }))}
+                onClose={() => setRouteMode(false)}
+              />
+            )}
+            {!routeMode && compareOpen && (
+              <ComparePanel
+                network={network}
+                latestBlock={historyEnd}
+                baseLabel={compareBase?.label ?? null}
+                currentLabel={shownAsOf !== null ? `block ${shownAsOf.toLocaleString()}` : "latest"}
+                comparison={comparison}
+                onChangeBase={changeCompareBase}
+                onSelect={focusToken}
+                onClose={closeCompare}
+              />
+            )}
+            {!routeMode && selectedNode && (
+              <TokenPanel
+                token={selectedNode}
+                tokens={treeNodes}
+                network={network}
+                replay={replay !== null}
+                onSelect={focusToken}
+                onClose={() => setSelectedAddress(null)}
+              />
+            )}
+            <TreeGraph
+              root={root}
+              width={mapWidth}
+              height={mapHeight}
+              animateNew={(live && done) || playing}
+              liquidity={liquidity}
+              edgeMetric={liquidity.size > 0 ? edgeMetric : "supply"}
+              highlightPath={routePath}
+              onNodeClick={routeMode ? handleRouteClick : undefined}
+              selectedAddress={selectedAddress}
+              onSelectionChange={setSelectedAddress}
+              focusRequest={focusRequest?.address === selectedAddress ? focusRequest : null}
+              maxDepth={maxDepth === "all" ? Infinity : Number(maxDepth)}
+              othersBelowTvl={Number(othersBelow)}
+              changes={comparison?.changes}
+            />
+          </div>
+        )}
+        {statsOpen && <StatsDashboard root={root} width={STATS_WIDTH} height={mapHeight} onSelect={focusToken} />}
+      </div>
     </div>
   );
 }
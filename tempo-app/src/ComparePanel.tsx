@@ -0,0 +1,256 @@
+import { useEffect, useRef, useState, type CSSProperties, type ReactNode } from "react";
+import type { NetworkConfig } from "./chain";
+import type { TokenChange, TokenComparison } from "./compare";
+import { findBlockAt } from "./fetchTokens";
+import { formatTvl } from "./format";
+import { parseSnapshot } from "./snapshot";
+import { revealHidden } from "./tokenSafety";
+import type { CompareBase } from "./treeWorker";
+
+interface ComparePanelProps {
+  network: NetworkConfig;
+  /** Newest synced block; the default and upper bound for block baselines. */
+  latestBlock: number;
+  /** Describes the state compared against, e.g. "block 1,234" or a snapshot file name; null when not comparing. */
+  baseLabel: string | null;
+  /** Describes the state shown in the graph. */
+  currentLabel: string;
+  /** Null until the first tree with the baseline arrives. */
+  comparison: TokenComparison | null;
+  onChangeBase: (base: { label: string; base: CompareBase } | null) => void;
+  onSelect: (address: string) => void;
+  onClose: () => void;
+}
+
+const DAY_SECONDS = 86_400;
+
+const buttonStyle: CSSProperties = {
+  padding: "3px 8px",
+  borderRadius: "6px",
+  border: "1px solid #334155",
+  background: "#0f172a",
+  color: "#94a3b8",
+  cursor: "pointer",
+  fontSize: "11px",
+  whiteSpace: "nowrap",
+};
+
+/** Signed PathUSD change, e.g. "+$1.2M" or "\u2212$300". */
+function formatUsd(n: number): string {
+  return `${n < 0 ? "\u2212" : "+"}${formatTvl(Math.abs(n))}`;
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div style={{ borderTop: "1px solid #334155", marginTop: "8px", paddingTop: "6px" }}>
+      <div style={{ color: "#94a3b8", fontSize: "11px", marginBottom: "4px" }}>{title}</div>
+      {children}
+    </div>
+  );
+}
+
+function TokenRow({ change, value, onSelect }: { change: TokenChange; value: string; onSelect: (address: string) => void }) {
+  return (
+    <button
+      onClick={() => onSelect(change.address)}
+      style={{
+        display: "flex",
+        justifyContent: "space-between",
+        gap: "8px",
+        width: "100%",
+        background: "none",
+        border: "none",
+        color: "#e2e8f0",
+        fontSize: "12px",
+        padding: "2px 0",
+        cursor: "pointer",
+        textAlign: "left",
+      }}
+      onMouseEnter={(e) => (e.currentTarget.style.background = "#334155")}
+      onMouseLeave={(e) => (e.currentTarget.style.background = "none")}
+    >
+      <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{revealHidden(change.symbol)}</span>
+      <span style={{ color: "#94a3b8", fontVariantNumeric: "tabular-nums", whiteSpace: "nowrap" }}>{value}</span>
+    </button>
+  );
+}
+
+export default function ComparePanel({
+  network,
+  latestBlock,
+  baseLabel,
+  currentLabel,
+  comparison,
+  onChangeBase,
+  onSelect,
+  onClose,
+}: ComparePanelProps) {
+  const [blockInput, setBlockInput] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [seeking, setSeeking] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+  // Date lookup in flight; dropped when another starts, the network changes or the panel closes
+  const seekRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => seekRef.current?.abort(), [network]);
+
+  function compareWithBlock(block: number) {
+    if (!Number.isInteger(block) || block < 0 || block > latestBlock) {
+      setError(`Pick a block between 0 and ${latestBlock.toLocaleString()}`);
+      return;
+    }
+    setError(null);
+    onChangeBase({ label: `block ${block.toLocaleString()}`, base: { block } });
+  }
+
+  function compareWithDaysAgo(days: number) {
+    seekRef.current?.abort();
+    const controller = new AbortController();
+    seekRef.current = controller;
+    setSeeking(true);
+    setError(null);
+    findBlockAt(network, Math.floor(Date.now() / 1000) - days * DAY_SECONDS, latestBlock, controller.signal)
+      .then((block) => {
+        if (controller.signal.aborted) return;
+        setBlockInput(String(block));
+        onChangeBase({ label: `${days} day${days === 1 ? "" : "s"} ago (block ${block.toLocaleString()})`, base: { block } });
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (seekRef.current === controller) setSeeking(false);
+      });
+  }
+
+  function compareWithSnapshot(file: File) {
+    file
+      .text()
+      .then(parseSnapshot)
+      .then((snapshot) => {
+        if (snapshot.networkId !== network.id) throw new Error(`Snapshot is from ${snapshot.networkId}, not ${network.id}`);
+        setError(null);
+        onChangeBase({
+          label: `${file.name} (block ${snapshot.blockNumber.toLocaleString()})`,
+          base: { tokens: snapshot.tokens },
+        });
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : String(err)));
+  }
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        top: 8,
+        left: 8,
+        width: "320px",
+        maxHeight: "calc(100% - 16px)",
+        overflowY: "auto",
+        zIndex: 6,
+        background: "#1e293b",
+        border: "1px solid #334155",
+        borderRadius: "8px",
+        padding: "10px 12px",
+        boxShadow: "0 4px 12px rgba(0,0,0,0.5)",
+        fontSize: "12px",
+        color: "#e2e8f0",
+        boxSizing: "border-box",
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "8px" }}>
+        <span style={{ fontWeight: 700, fontSize: "13px" }}>Compare</span>
+        <button
+          onClick={onClose}
+          style={{ background: "none", border: "none", color: "#94a3b8", cursor: "pointer", fontSize: "15px", padding: 0 }}
+        >
+          &times;
+        </button>
+      </div>
+
+      <div style={{ display: "flex", gap: "6px", alignItems: "center", flexWrap: "wrap" }}>
+        <input
+          value={blockInput}
+          onChange={(e) => setBlockInput(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && compareWithBlock(Number(blockInput))}
+          placeholder="Block number"
+          inputMode="numeric"
+          style={{ ...buttonStyle, width: "100px", color: "#e2e8f0", cursor: "text", outline: "none" }}
+        />
+        <button onClick={() => compareWithBlock(Number(blockInput))} disabled={!blockInput.trim()} style={buttonStyle}>
+          Compare
+        </button>
+        <button onClick={() => compareWithDaysAgo(1)} disabled={seeking} style={buttonStyle}>
+          1 day ago
+        </button>
+        <button onClick={() => compareWithDaysAgo(7)} disabled={seeking} style={buttonStyle}>
+          7 days ago
+        </button>
+        <button onClick={() => fileRef.current?.click()} title="Compare with a snapshot file" style={buttonStyle}>
+          {"Snapshot\u2026"}
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) compareWithSnapshot(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      {error && <div style={{ color: "#f87171", marginTop: "6px" }}>{error}</div>}
+
+      {!baseLabel ? (
+        <div style={{ color: "#64748b", marginTop: "8px" }}>
+          Pick a block or a snapshot to compare the {currentLabel} tree with.
+        </div>
+      ) : (
+        <>
+          <div style={{ color: "#94a3b8", marginTop: "8px" }}>
+            {baseLabel} {"\u2192"} {currentLabel}{" "}
+            <button onClick={() => onChangeBase(null)} style={{ ...buttonStyle, padding: "0 6px" }}>
+              Clear
+            </button>
+          </div>
+          {!comparison ? (
+            <div style={{ display: "flex", alignItems: "center", gap: "6px", color: "#64748b", marginTop: "8px" }}>
+              <div className="spinner" style={{ width: 12, height: 12, borderWidth: 2 }} />
+              Reading the baseline...
+            </div>
+          ) : (
+            <>
+              <div style={{ display: "flex", flexWrap: "wrap", gap: "4px 12px", marginTop: "6px", fontVariantNumeric: "tabular-nums" }}>
+                <span style={{ color: "#22c55e" }}>{comparison.added.toLocaleString()} new</span>
+                <span style={{ color: "#ef4444" }}>{comparison.removed.toLocaleString()} removed</span>
+                <span style={{ color: "#f59e0b" }}>{comparison.reparented.toLocaleString()} reparented</span>
+                <span style={{ color: "#38bdf8" }}>{comparison.supplyChanged.toLocaleString()} supply changes</span>
+              </div>
+              {comparison.movers.length > 0 && (
+                <Section title="Biggest supply movers (PathUSD)">
+                  {comparison.movers.map((c) => (
+                    <TokenRow key={c.address} change={c} value={formatUsd(c.tvlDelta)} onSelect={onSelect} />
+                  ))}
+                </Section>
+              )}
+              {comparison.newSubtrees.length > 0 && (
+                <Section title="New subtrees">
+                  {comparison.newSubtrees.map((s) => (
+                    <TokenRow
+                      key={s.root.address}
+                      change={s.root}
+                      value={`${s.size.toLocaleString()} token${s.size === 1 ? "" : "s"} \u00b7 ${formatUsd(s.tvl)}`}
+                      onSelect={onSelect}
+                    />
+                  ))}
+                </Section>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
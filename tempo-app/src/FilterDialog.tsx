@@ -0,0 +1,297 @@
+import { useState, type CSSProperties } from "react";
+import {
+  emptyRule,
+  isRangeField,
+  validateRule,
+  type FilterField,
+  type FilterGroup,
+  type FilterRule,
+  type FilterSpec,
+} from "./filters";
+
+interface FilterDialogProps {
+  /** The filter in effect; the dialog edits a copy until it is applied. */
+  value: FilterSpec;
+  onApply: (spec: FilterSpec) => void;
+  onClose: () => void;
+}
+
+const FIELD_OPTIONS: { value: FilterField; label: string }[] = [
+  { value: "symbol", label: "Symbol" },
+  { value: "name", label: "Name" },
+  { value: "address", label: "Address" },
+  { value: "currency", label: "Currency" },
+  { value: "admin", label: "Admin" },
+  { value: "quoteToken", label: "Quote token" },
+  { value: "createdBlock", label: "Creation block" },
+  { value: "supply", label: "Supply" },
+  { value: "depth", label: "Depth" },
+];
+
+const inputStyle: CSSProperties = {
+  boxSizing: "border-box",
+  background: "#0f172a",
+  border: "1px solid #334155",
+  borderRadius: "6px",
+  color: "#e2e8f0",
+  fontSize: "12px",
+  padding: "4px 6px",
+  outline: "none",
+  fontFamily: "inherit",
+};
+
+const linkButtonStyle: CSSProperties = {
+  background: "none",
+  border: "none",
+  color: "#60a5fa",
+  cursor: "pointer",
+  fontSize: "11px",
+  padding: 0,
+};
+
+const removeButtonStyle: CSSProperties = {
+  background: "none",
+  border: "none",
+  color: "#94a3b8",
+  cursor: "pointer",
+  fontSize: "14px",
+  padding: "0 2px",
+  lineHeight: 1,
+};
+
+function newGroup(mode: FilterGroup["mode"]): FilterGroup {
+  return { mode, match: "all", rules: [emptyRule("symbol")] };
+}
+
+function parseBound(value: string): number | null {
+  if (!value.trim()) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function RuleEditor({
+  rule,
+  onChange,
+  onRemove,
+}: {
+  rule: FilterRule;
+  onChange: (rule: FilterRule) => void;
+  onRemove: () => void;
+}) {
+  const error = validateRule(rule);
+  return (
+    <div style={{ marginBottom: "6px" }}>
+      <div style={{ display: "flex", gap: "6px", alignItems: "center" }}>
+        <select
+          value={rule.field}
+          onChange={(e) => {
+            const field = e.target.value as FilterField;
+            // Keep the pattern or bounds when switching between fields of the same kind
+            onChange(isRangeField(field) === isRangeField(rule.field) ? ({ ...rule, field } as FilterRule) : emptyRule(field));
+          }}
+          style={{ ...inputStyle, width: "120px" }}
+        >
+          {FIELD_OPTIONS.map((o) => (
+            <option key={o.value} value={o.value}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+        {"pattern" in rule ? (
+          <>
+            <input
+              value={rule.pattern}
+              onChange={(e) => onChange({ ...rule, pattern: e.target.value })}
+              placeholder={rule.regex ? "Regular expression" : "Value (* = wildcard)"}
+              style={{ ...inputStyle, flex: 1, minWidth: 0, fontFamily: rule.regex ? "monospace" : "inherit" }}
+            />
+            <label title="Treat the pattern as a regular expression" style={{ display: "flex", gap: "3px", alignItems: "center", color: "#94a3b8" }}>
+              <input type="checkbox" checked={rule.regex} onChange={(e) => onChange({ ...rule, regex: e.target.checked })} />
+              .*
+            </label>
+          </>
+        ) : (
+          <>
+            <input
+              type="number"
+              value={rule.min ?? ""}
+              onChange={(e) => onChange({ ...rule, min: parseBound(e.target.value) })}
+              placeholder="Min"
+              style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+            />
+            <span style={{ color: "#64748b" }}>{"\u2013"}</span>
+            <input
+              type="number"
+              value={rule.max ?? ""}
+              onChange={(e) => onChange({ ...rule, max: parseBound(e.target.value) })}
+              placeholder="Max"
+              style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+            />
+          </>
+        )}
+        <button onClick={onRemove} title="Remove rule" style={removeButtonStyle}>
+          &times;
+        </button>
+      </div>
+      {error && <div style={{ color: "#f87171", fontSize: "11px", marginTop: "2px", marginLeft: "126px" }}>{error}</div>}
+    </div>
+  );
+}
+
+export default function FilterDialog({ value, onApply, onClose }: FilterDialogProps) {
+  const [groups, setGroups] = useState<FilterGroup[]>(value.groups);
+
+  const valid = groups.every((g) => g.rules.every((r) => validateRule(r) === null));
+
+  function updateGroup(index: number, update: Partial<FilterGroup>) {
+    setGroups((prev) => prev.map((g, i) => (i === index ? { ...g, ...update } : g)));
+  }
+
+  function updateRule(groupIndex: number, ruleIndex: number, rule: FilterRule) {
+    setGroups((prev) =>
+      prev.map((g, i) => (i === groupIndex ? { ...g, rules: g.rules.map((r, j) => (j === ruleIndex ? rule : r)) } : g)),
+    );
+  }
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 50,
+        background: "rgba(2,6,23,0.7)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+      }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          width: "520px",
+          maxHeight: "90vh",
+          overflowY: "auto",
+          background: "#1e293b",
+          border: "1px solid #334155",
+          borderRadius: "8px",
+          padding: "14px 16px",
+          boxShadow: "0 4px 12px rgba(0,0,0,0.5)",
+          fontSize: "12px",
+          color: "#e2e8f0",
+        }}
+      >
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "6px" }}>
+          <span style={{ fontWeight: 700, fontSize: "13px" }}>Filters</span>
+          <button
+            onClick={onClose}
+            style={{ background: "none", border: "none", color: "#94a3b8", cursor: "pointer", fontSize: "15px", padding: 0 }}
+          >
+            &times;
+          </button>
+        </div>
+        <div style={{ color: "#64748b", fontSize: "11px", marginBottom: "10px" }}>
+          Tokens are shown when they match every include group and no exclude group. The quote tokens above a shown token
+          stay in the tree so it remains connected.
+        </div>
+
+        {groups.map((group, gi) => (
+          <div
+            key={gi}
+            style={{
+              border: "1px solid #334155",
+              borderLeft: `3px solid ${group.mode === "include" ? "#22c55e" : "#ef4444"}`,
+              borderRadius: "6px",
+              padding: "8px 10px",
+              marginBottom: "8px",
+            }}
+          >
+            <div style={{ display: "flex", gap: "6px", alignItems: "center", marginBottom: "8px" }}>
+              <select
+                value={group.mode}
+                onChange={(e) => updateGroup(gi, { mode: e.target.value as FilterGroup["mode"] })}
+                style={inputStyle}
+              >
+                <option value="include">Include</option>
+                <option value="exclude">Exclude</option>
+              </select>
+              <span style={{ color: "#94a3b8" }}>tokens matching</span>
+              <select
+                value={group.match}
+                onChange={(e) => updateGroup(gi, { match: e.target.value as FilterGroup["match"] })}
+                style={inputStyle}
+              >
+                <option value="all">all rules (AND)</option>
+                <option value="any">any rule (OR)</option>
+              </select>
+              <span style={{ flex: 1 }} />
+              <button
+                onClick={() => setGroups((prev) => prev.filter((_, i) => i !== gi))}
+                title="Remove group"
+                style={removeButtonStyle}
+              >
+                &times;
+              </button>
+            </div>
+            {group.rules.map((rule, ri) => (
+              <RuleEditor
+                key={ri}
+                rule={rule}
+                onChange={(r) => updateRule(gi, ri, r)}
+                onRemove={() => updateGroup(gi, { rules: group.rules.filter((_, j) => j !== ri) })}
+              />
+            ))}
+            <button onClick={() => updateGroup(gi, { rules: [...group.rules, emptyRule("symbol")] })} style={linkButtonStyle}>
+              + Add rule
+            </button>
+          </div>
+        ))}
+
+        <div style={{ display: "flex", gap: "12px" }}>
+          <button onClick={() => setGroups((prev) => [...prev, newGroup("include")])} style={linkButtonStyle}>
+            + Include group
+          </button>
+          <button onClick={() => setGroups((prev) => [...prev, newGroup("exclude")])} style={linkButtonStyle}>
+            + Exclude group
+          </button>
+        </div>
+
+        <div style={{ display: "flex", gap: "8px", marginTop: "12px" }}>
+          <button
+            onClick={() => setGroups([])}
+            disabled={groups.length === 0}
+            style={{
+              padding: "7px 12px",
+              borderRadius: "6px",
+              border: "1px solid #334155",
+              background: "#0f172a",
+              color: "#94a3b8",
+              cursor: groups.length === 0 ? "default" : "pointer",
+              fontSize: "12px",
+            }}
+          >
+            Clear all
+          </button>
+          <button
+            onClick={() => onApply({ groups: groups.filter((g) => g.rules.length > 0) })}
+            disabled={!valid}
+            style={{
+              flex: 1,
+              padding: "7px 12px",
+              borderRadius: "6px",
+              border: "none",
+              background: "#3b82f6",
+              color: "#fff",
+              cursor: valid ? "pointer" : "default",
+              opacity: valid ? 1 : 0.6,
+              fontSize: "12px",
+              fontWeight: 600,
+            }}
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+import { useState, type ChangeEvent, type CSSProperties, type ReactNode } from "react";
+import { isAddress, type Address } from "viem";
+import {
+  DEFAULT_PRECOMPILES,
+  DEFAULT_GENESIS_TOKENS,
+  networkFromSpec,
+  type NetworkConfig,
+  type NetworkSpec,
+} from "./chain";
+import { verifyChainId } from "./fetchTokens";
+import { DEFAULT_REQUESTS_PER_SECOND } from "./transport";
+
+interface NetworkDialogProps {
+  /** Every configured network, to reject duplicate ids and list removable custom ones. */
+  networks: Record<string, NetworkConfig>;
+  /** Called with a spec whose RPC has answered with the expected chain id. */
+  onConnect: (spec: NetworkSpec) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+const PRECOMPILE_FIELDS = [
+  { key: "TIP20_FACTORY", label: "TIP-20 factory" },
+  { key: "STABLECOIN_DEX", label: "Stablecoin DEX" },
+  { key: "MULTICALL3", label: "Multicall3" },
+] as const;
+
+const inputStyle: CSSProperties = {
+  width: "100%",
+  boxSizing: "border-box",
+  background: "#0f172a",
+  border: "1px solid #334155",
+  borderRadius: "6px",
+  color: "#e2e8f0",
+  fontSize: "12px",
+  padding: "5px 8px",
+  outline: "none",
+  fontFamily: "inherit",
+};
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label style={{ flex: 1, display: "flex", flexDirection: "column", gap: "3px" }}>
+      <span style={{ color: "#64748b", fontSize: "11px" }}>{label}</span>
+      {children}
+    </label>
+  );
+}
+
+const EMPTY_FORM = { id: "", label: "", rpcUrl: "", fallbackRpcUrls: "", rpcAuth: "", requestsPerSecond: "", chainId: "", genesis: "", explorerUrl: "" };
+
+function parseUrl(value: string): URL | null {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Validate the form; returns the spec or an error message. */
+function toSpec(
+  form: typeof EMPTY_FORM,
+  precompiles: Record<string, string>,
+  networks: Record<string, NetworkConfig>,
+): NetworkSpec | string {
+  const id = form.id.trim();
+  if (!/^[a-z0-9-]+$/i.test(id)) return "Id may only contain letters, digits and dashes";
+  if (Object.hasOwn(networks, id) && !networks[id].custom) return `"${id}" is a built-in network`;
+  const url = parseUrl(form.rpcUrl);
+  if (!url) return "RPC URL must be a valid http(s) URL";
+  const fallbacks = form.fallbackRpcUrls.split(/[\s,]+/).filter(Boolean).map((u) => [u, parseUrl(u)] as const);
+  const badFallback = fallbacks.find(([, parsed]) => !parsed);
+  if (badFallback) return `Fallback ${badFallback[0]} is not a valid http(s) URL`;
+  const requestsPerSecond = form.requestsPerSecond.trim() ? Number(form.requestsPerSecond) : undefined;
+  if (requestsPerSecond !== undefined && !(requestsPerSecond > 0)) return "Requests per second must be positive";
+  const chainId = Number(form.chainId);
+  if (!Number.isInteger(chainId) || chainId <= 0) return "Chain id must be a positive integer";
+
+  const overrides: Partial<NetworkConfig["precompiles"]> = {};
+  for (const { key, label } of PRECOMPILE_FIELDS) {
+    const value = precompiles[key]?.trim();
+    if (!value) continue;
+    if (!isAddress(value)) return `${label} is not an address`;
+    overrides[key] = value;
+  }
+  const genesisTokens = form.genesis.split(/[\s,]+/).filter(Boolean);
+  const badGenesis = genesisTokens.find((a) => !isAddress(a));
+  if (badGenesis) return `Genesis token ${badGenesis} is not an address`;
+  const explorer = form.explorerUrl.trim() ? parseUrl(form.explorerUrl) : undefined;
+  if (explorer === null) return "Block explorer URL must be a valid http(s) URL";
+
+  return {
+    id,
+    label: form.label.trim() || id,
+    chainId,
+    rpcUrl: url.toString(),
+    fallbackRpcUrls: fallbacks.length > 0 ? fallbacks.map(([, parsed]) => parsed!.toString()) : undefined,
+    rpcAuth: form.rpcAuth.trim() || undefined,
+    requestsPerSecond,
+    precompiles: Object.keys(overrides).length > 0 ? overrides : undefined,
+    genesisTokens: genesisTokens.length > 0 ? (genesisTokens as Address[]) : undefined,
+    explorerUrl: explorer?.toString(),
+  };
+}
+
+export default function NetworkDialog({ networks, onConnect, onRemove, onClose }: NetworkDialogProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [precompiles, setPrecompiles] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [connecting, setConnecting] = useState(false);
+
+  const customNetworks = Object.values(networks).filter((n) => n.custom);
+
+  const update = (key: keyof typeof form) => (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm((prev) => ({ ...prev, [key]: e.target.value }));
+
+  function connect() {
+    const spec = toSpec(form, precompiles, networks);
+    if (typeof spec === "string") {
+      setError(spec);
+      return;
+    }
+    setError(null);
+    setConnecting(true);
+    verifyChainId(networkFromSpec(spec, true))
+      .then(() => onConnect(spec))
+      .catch((err) => setError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setConnecting(false));
+  }
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 50,
+        background: "rgba(2,6,23,0.7)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+      }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          width: "420px",
+          maxHeight: "90vh",
+          overflowY: "auto",
+          background: "#1e293b",
+          border: "1px solid #334155",
+          borderRadius: "8px",
+          padding: "14px 16px",
+          boxShadow: "0 4px 12px rgba(0,0,0,0.5)",
+          fontSize: "12px",
+          color: "#e2e8f0",
+        }}
+      >
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "10px" }}>
+          <span style={{ fontWeight: 700, fontSize: "13px" }}>Custom network</span>
+          <button
+            onClick={onClose}
+            style={{ background: "none", border: "none", color: "#94a3b8", cursor: "pointer", fontSize: "15px", padding: 0 }}
+          >
+            &times;
+          </button>
+        </div>
+
+        {customNetworks.length > 0 && (
+          <div style={{ marginBottom: "12px" }}>
+            {customNetworks.map((n) => (
+              <div
+                key={n.id}
+                style={{ display: "flex", justifyContent: "space-between", alignItems: "center", padding: "3px 0" }}
+              >
+                <span>
+                  {n.label} <span style={{ color: "#64748b" }}>{n.rpcUrl}</span>
+                </span>
+                <button
+                  onClick={() => onRemove(n.id)}
+                  style={{ background: "none", border: "none", color: "#f87171", cursor: "pointer", fontSize: "11px" }}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div style={{ display: "flex", flexDirection: "column", gap: "8px" }}>
+          <div style={{ display: "flex", gap: "8px" }}>
+            <Field label="Id">
+              <input style={inputStyle} value={form.id} onChange={update("id")} placeholder="devnet" />
+            </Field>
+            <Field label="Label">
+              <input style={inputStyle} value={form.label} onChange={update("label")} placeholder="Local devnet" />
+            </Field>
+          </div>
+          <Field label="RPC URL">
+            <input style={inputStyle} value={form.rpcUrl} onChange={update("rpcUrl")} placeholder="http://localhost:8545" />
+          </Field>
+          <Field label="Fallback RPC URLs (optional, tried in order)">
+            <textarea
+              style={{ ...inputStyle, resize: "vertical" }}
+              rows={2}
+              value={form.fallbackRpcUrls}
+              onChange={update("fallbackRpcUrls")}
+            />
+          </Field>
+          <div style={{ display: "flex", gap: "8px" }}>
+            <Field label="Chain id">
+              <input style={inputStyle} value={form.chainId} onChange={update("chainId")} inputMode="numeric" />
+            </Field>
+            <Field label="Authorization header (optional)">
+              <input style={inputStyle} value={form.rpcAuth} onChange={update("rpcAuth")} placeholder="Basic …" />
+            </Field>
+            <Field label="Requests/s">
+              <input
+                style={inputStyle}
+                value={form.requestsPerSecond}
+                onChange={update("requestsPerSecond")}
+                inputMode="numeric"
+                placeholder={String(DEFAULT_REQUESTS_PER_SECOND)}
+              />
+            </Field>
+          </div>
+          {PRECOMPILE_FIELDS.map(({ key, label }) => (
+            <Field key={key} label={`${label} (optional)`}>
+              <input
+                style={inputStyle}
+                value={precompiles[key] ?? ""}
+                onChange={(e) => setPrecompiles((prev) => ({ ...prev, [key]: e.target.value }))}
+                placeholder={DEFAULT_PRECOMPILES[key]}
+              />
+            </Field>
+          ))}
+          <Field label="Genesis tokens (optional, comma or newline separated)">
+            <textarea
+              style={{ ...inputStyle, resize: "vertical" }}
+              rows={2}
+              value={form.genesis}
+              onChange={update("genesis")}
+              placeholder={DEFAULT_GENESIS_TOKENS.join("\n")}
+            />
+          </Field>
+          <Field label="Block explorer URL (optional)">
+            <input
+              style={inputStyle}
+              value={form.explorerUrl}
+              onChange={update("explorerUrl")}
+              placeholder="https://explorer.example.com"
+            />
+          </Field>
+        </div>
+
+        <div style={{ color: "#64748b", fontSize: "11px", marginTop: "8px" }}>
+          Saved in this browser only. Shared links to a custom network open the default network elsewhere.
+        </div>
+        {error && <div style={{ color: "#f87171", marginTop: "8px" }}>{error}</div>}
+        <button
+          onClick={connect}
+          disabled={connecting}
+          style={{
+            marginTop: "12px",
+            width: "100%",
+            padding: "7px 12px",
+            borderRadius: "6px",
+            border: "none",
+            background: "#3b82f6",
+            color: "#fff",
+            cursor: connecting ? "default" : "pointer",
+            opacity: connecting ? 0.6 : 1,
+            fontSize: "12px",
+            fontWeight: 600,
+          }}
+        >
+          {connecting ? "Checking chain id..." : "Connect"}
+        </button>
+      </div>
+    </div>
+  );
+}
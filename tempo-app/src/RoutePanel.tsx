@@ -0,0 +1,201 @@
+import { useMemo, useState } from "react";
+import { pairDepth, type PairLiquidity, type TokenNode } from "./fetchTokens";
+import { formatAmount } from "./format";
+import type { SwapRoute } from "./routes";
+
+interface RoutePanelProps {
+  /** Tokens currently in the tree, for the pickers. */
+  tokens: TokenNode[];
+  from: string | null;
+  to: string | null;
+  route: SwapRoute | null;
+  liquidity: Map<string, PairLiquidity>;
+  onChangeFrom: (address: string | null) => void;
+  onChangeTo: (address: string | null) => void;
+  onClose: () => void;
+}
+
+function TokenPicker({
+  label,
+  tokens,
+  value,
+  onChange,
+}: {
+  label: string;
+  tokens: TokenNode[];
+  value: string | null;
+  onChange: (address: string | null) => void;
+}) {
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+
+  const selected = useMemo(
+    () => (value ? tokens.find((t) => t.address.toLowerCase() === value.toLowerCase()) ?? null : null),
+    [tokens, value],
+  );
+
+  const matches = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+    return tokens
+      .filter(
+        (t) => t.symbol.toLowerCase().includes(q) || t.name.toLowerCase().includes(q) || t.address.toLowerCase().startsWith(q),
+      )
+      .slice(0, 8);
+  }, [tokens, query]);
+
+  return (
+    <div style={{ position: "relative", display: "flex", alignItems: "center", gap: "8px" }}>
+      <span style={{ color: "#64748b", fontSize: "11px", width: "28px" }}>{label}</span>
+      <input
+        type="text"
+        value={open ? query : selected ? selected.symbol : ""}
+        placeholder="Symbol, name or address"
+        onFocus={() => {
+          setQuery("");
+          setOpen(true);
+        }}
+        onChange={(e) => setQuery(e.target.value)}
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && matches.length > 0) {
+            onChange(matches[0].address);
+            setOpen(false);
+            e.currentTarget.blur();
+          }
+          if (e.key === "Escape") e.currentTarget.blur();
+        }}
+        style={{
+          flex: 1,
+          background: "#0f172a",
+          border: "1px solid #334155",
+          borderRadius: "6px",
+          color: "#e2e8f0",
+          fontSize: "12px",
+          padding: "5px 8px",
+          outline: "none",
+        }}
+      />
+      {value && (
+        <button
+          onClick={() => onChange(null)}
+          style={{ background: "none", border: "none", color: "#94a3b8", cursor: "pointer", fontSize: "13px", padding: 0 }}
+        >
+          &times;
+        </button>
+      )}
+      {open && matches.length > 0 && (
+        <div
+          style={{
+            position: "absolute",
+            top: "100%",
+            left: "36px",
+            right: 0,
+            marginTop: "4px",
+            background: "#1e293b",
+            border: "1px solid #334155",
+            borderRadius: "6px",
+            zIndex: 20,
+          }}
+        >
+          {matches.map((t) => (
+            <button
+              key={t.address}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                onChange(t.address);
+                setOpen(false);
+              }}
+              style={{
+                display: "block",
+                width: "100%",
+                textAlign: "left",
+                background: "none",
+                border: "none",
+                color: "#e2e8f0",
+                fontSize: "12px",
+                padding: "6px 10px",
+                cursor: "pointer",
+              }}
+              onMouseEnter={(e) => (e.currentTarget.style.background = "#334155")}
+              onMouseLeave={(e) => (e.currentTarget.style.background = "none")}
+            >
+              {t.symbol} <span style={{ color: "#64748b" }}>{t.name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function RoutePanel({
+  tokens,
+  from,
+  to,
+  route,
+  liquidity,
+  onChangeFrom,
+  onChangeTo,
+  onClose,
+}: RoutePanelProps) {
+  return (
+    <div
+      style={{
+        position: "absolute",
+        top: 8,
+        left: 8,
+        width: "300px",
+        zIndex: 6,
+        background: "#1e293b",
+        border: "1px solid #334155",
+        borderRadius: "8px",
+        padding: "10px 12px",
+        boxShadow: "0 4px 12px rgba(0,0,0,0.5)",
+        fontSize: "12px",
+        color: "#e2e8f0",
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "8px" }}>
+        <span style={{ fontWeight: 700, fontSize: "13px" }}>Swap route</span>
+        <button
+          onClick={onClose}
+          style={{ background: "none", border: "none", color: "#94a3b8", cursor: "pointer", fontSize: "15px", padding: 0 }}
+        >
+          &times;
+        </button>
+      </div>
+      <div style={{ display: "flex", flexDirection: "column", gap: "6px" }}>
+        <TokenPicker label="From" tokens={tokens} value={from} onChange={onChangeFrom} />
+        <TokenPicker label="To" tokens={tokens} value={to} onChange={onChangeTo} />
+      </div>
+      {!from || !to ? (
+        <div style={{ color: "#64748b", marginTop: "8px" }}>Pick two tokens, or click them in the graph.</div>
+      ) : !route ? (
+        <div style={{ color: "#f87171", marginTop: "8px" }}>No route: a token is not in the current tree.</div>
+      ) : (
+        <div style={{ marginTop: "10px" }}>
+          <div style={{ color: "#94a3b8", marginBottom: "6px" }}>
+            {route.hops.length} hop{route.hops.length === 1 ? "" : "s"} via {route.lca.symbol}
+          </div>
+          {route.hops.map((hop, i) => {
+            const liq = liquidity.get(hop.base.address.toLowerCase());
+            return (
+              <div
+                key={`${hop.from.address}-${hop.to.address}`}
+                style={{ display: "flex", justifyContent: "space-between", padding: "3px 0", borderTop: i > 0 ? "1px solid #334155" : "none" }}
+              >
+                <span>
+                  {hop.from.symbol} <span style={{ color: "#64748b" }}>{hop.direction === "up" ? "↑" : "↓"}</span> {hop.to.symbol}
+                </span>
+                <span style={{ color: liq ? "#e2e8f0" : "#475569", fontVariantNumeric: "tabular-nums" }}>
+                  {liq ? `${formatAmount(pairDepth(liq))} ${hop.base.symbol}` : liquidity.size === 0 ? "\u2014" : "no book"}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,380 @@
+import { useEffect, useMemo, useRef, type ReactNode } from "react";
+import * as d3 from "d3";
+import type { TokenNode } from "./fetchTokens";
+import { formatAmount, formatTvl } from "./format";
+import { computeTreeStats } from "./stats";
+import { revealHidden } from "./tokenSafety";
+
+interface StatsDashboardProps {
+  /** The filtered tree, so every chart reflects the TVL floor and exclusions. */
+  root: TokenNode;
+  width: number;
+  height: number;
+  onSelect: (address: string) => void;
+}
+
+const CURRENCY_COLORS: Record<string, string> = {
+  USD: "#4ade80",
+  EUR: "#60a5fa",
+  GBP: "#f472b6",
+  JPY: "#fb923c",
+  BRL: "#a78bfa",
+  ARS: "#facc15",
+  MXN: "#f87171",
+  CAD: "#34d399",
+  AUD: "#38bdf8",
+  SGD: "#c084fc",
+  HKD: "#fb7185",
+  KRW: "#2dd4bf",
+  INR: "#fbbf24",
+  CHF: "#a3e635",
+  SEK: "#67e8f9",
+};
+
+function getCurrencyColor(currency: string): string {
+  return CURRENCY_COLORS[currency] || "#94a3b8";
+}
+
+// ── Charts ────────────────────────────────────────────────────────
+
+const BAR_HEIGHT = 16;
+const BAR_GAP = 4;
+const LABEL_WIDTH = 64;
+const VALUE_WIDTH = 84;
+
+interface BarRow {
+  key: string;
+  label: string;
+  /** Bar length. */
+  value: number;
+  /** Text after the bar. */
+  valueLabel: string;
+  color: string;
+  title: string;
+}
+
+/** Horizontal bars, one row per entry; rows are clickable when `onClick` is given. */
+function BarChart({ rows, width, onClick }: { rows: BarRow[]; width: number; onClick?: (key: string) => void }) {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const x = d3
+      .scaleLinear()
+      .domain([0, d3.max(rows, (r) => r.value) || 1])
+      .range([0, Math.max(1, width - LABEL_WIDTH - VALUE_WIDTH)]);
+
+    const row = d3
+      .select(svgRef.current)
+      .selectAll<SVGGElement, BarRow>("g.row")
+      .data(rows, (r) => r.key)
+      .join((enter) => {
+        const g = enter.append("g").attr("class", "row");
+        g.append("title");
+        g.append("text").attr("class", "label").attr("y", BAR_HEIGHT / 2).attr("dy", "0.35em").attr("font-size", 11).attr("fill", "#e2e8f0");
+        g.append("rect").attr("x", LABEL_WIDTH).attr("height", BAR_HEIGHT).attr("rx", 2).attr("fill-opacity", 0.8);
+        g.append("text").attr("class", "value").attr("y", BAR_HEIGHT / 2).attr("dy", "0.35em").attr("font-size", 10).attr("fill", "#94a3b8");
+        return g;
+      })
+      .attr("transform", (_, i) => `translate(0,${i * (BAR_HEIGHT + BAR_GAP)})`)
+      .style("cursor", onClick ? "pointer" : "default")
+      .on("click", (_, r) => onClick?.(r.key));
+
+    row.select("title").text((r) => r.title);
+    row
+      .select("text.label")
+      .text((r) => (r.label.length > 9 ? `${r.label.slice(0, 8)}\u2026` : r.label));
+    row
+      .select("rect")
+      .attr("fill", (r) => r.color)
+      .transition()
+      .duration(300)
+      .attr("width", (r) => Math.max(1, x(r.value)));
+    row
+      .select("text.value")
+      .text((r) => r.valueLabel)
+      .transition()
+      .duration(300)
+      .attr("x", (r) => LABEL_WIDTH + Math.max(1, x(r.value)) + 4);
+  }, [rows, width, onClick]);
+
+  return <svg ref={svgRef} width={width} height={Math.max(0, rows.length * (BAR_HEIGHT + BAR_GAP) - BAR_GAP)} />;
+}
+
+interface Column {
+  key: string;
+  value: number;
+  title: string;
+}
+
+const COLUMN_CHART_HEIGHT = 90;
+const AXIS_HEIGHT = 14;
+
+/** Vertical bars over an ordered axis, labelled at its two ends. */
+function ColumnChart({
+  columns,
+  width,
+  color,
+  startLabel,
+  endLabel,
+}: {
+  columns: Column[];
+  width: number;
+  color: string;
+  startLabel: string;
+  endLabel: string;
+}) {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const plotHeight = COLUMN_CHART_HEIGHT - AXIS_HEIGHT;
+    const x = d3
+      .scaleBand()
+      .domain(columns.map((c) => c.key))
+      .range([0, width])
+      .padding(0.15);
+    const y = d3
+      .scaleLinear()
+      .domain([0, d3.max(columns, (c) => c.value) || 1])
+      .range([plotHeight, 0]);
+
+    const svg = d3.select(svgRef.current);
+    const bar = svg
+      .selectAll<SVGRectElement, Column>("rect")
+      .data(columns, (c) => c.key)
+      .join((enter) => {
+        const rect = enter.append("rect").attr("fill-opacity", 0.8).attr("y", plotHeight).attr("height", 0);
+        rect.append("title");
+        return rect;
+      })
+      .attr("fill", color)
+      .attr("x", (c) => x(c.key) ?? 0)
+      .attr("width", x.bandwidth());
+    bar.select("title").text((c) => c.title);
+    bar
+      .transition()
+      .duration(300)
+      .attr("y", (c) => y(c.value))
+      .attr("height", (c) => plotHeight - y(c.value));
+
+    svg
+      .selectAll("text.axis")
+      .data([
+        { text: startLabel, x: 0, anchor: "start" },
+        { text: endLabel, x: width, anchor: "end" },
+      ])
+      .join("text")
+      .attr("class", "axis")
+      .attr("x", (d) => d.x)
+      .attr("y", COLUMN_CHART_HEIGHT - 2)
+      .attr("text-anchor", (d) => d.anchor)
+      .attr("font-size", 10)
+      .attr("fill", "#64748b")
+      .text((d) => d.text);
+  }, [columns, width, color, startLabel, endLabel]);
+
+  return <svg ref={svgRef} width={width} height={COLUMN_CHART_HEIGHT} />;
+}
+
+const DONUT_SIZE = 64;
+
+/** A two-slice donut showing `part` out of `total`. */
+function ShareDonut({ part, total, color }: { part: number; total: number; color: string }) {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const slices = d3
+      .pie<{ key: string; value: number }>()
+      .sort(null)
+      .value((d) => d.value)([
+      { key: "part", value: part },
+      { key: "rest", value: Math.max(0, total - part) },
+    ]);
+    const arc = d3
+      .arc<d3.PieArcDatum<{ key: string; value: number }>>()
+      .innerRadius(DONUT_SIZE / 2 - 10)
+      .outerRadius(DONUT_SIZE / 2);
+
+    d3.select(svgRef.current)
+      .selectAll("path")
+      .data(slices, (d) => (d as d3.PieArcDatum<{ key: string }>).data.key)
+      .join("path")
+      .attr("transform", `translate(${DONUT_SIZE / 2},${DONUT_SIZE / 2})`)
+      .attr("fill", (d) => (d.data.key === "part" ? color : "#334155"))
+      .attr("d", arc);
+  }, [part, total, color]);
+
+  return <svg ref={svgRef} width={DONUT_SIZE} height={DONUT_SIZE} />;
+}
+
+// ── Dashboard ─────────────────────────────────────────────────────
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div style={{ borderTop: "1px solid #334155", paddingTop: "8px", marginTop: "10px" }}>
+      <div style={{ color: "#94a3b8", fontSize: "11px", marginBottom: "6px" }}>{title}</div>
+      {children}
+    </div>
+  );
+}
+
+export default function StatsDashboard({ root, width, height, onSelect }: StatsDashboardProps) {
+  const stats = useMemo(() => computeTreeStats(root), [root]);
+  const chartWidth = width - 26;
+
+  const currencyCounts = useMemo<BarRow[]>(
+    () =>
+      [...stats.currencies]
+        .sort((a, b) => b.count - a.count)
+        .map((c) => ({
+          key: c.currency,
+          label: revealHidden(c.currency),
+          value: c.count,
+          valueLabel: c.count.toLocaleString(),
+          color: getCurrencyColor(c.currency),
+          title: `${c.count.toLocaleString()} ${revealHidden(c.currency)} tokens`,
+        })),
+    [stats],
+  );
+
+  // Supplies are in different units, so bars are scaled by PathUSD value
+  const currencySupplies = useMemo<BarRow[]>(
+    () =>
+      stats.currencies.map((c) => ({
+        key: c.currency,
+        label: revealHidden(c.currency),
+        value: c.tvl,
+        valueLabel: formatAmount(c.supply),
+        color: getCurrencyColor(c.currency),
+        title: `${c.supply.toLocaleString()} ${revealHidden(c.currency)} \u00b7 ${formatTvl(c.tvl)} PathUSD`,
+      })),
+    [stats],
+  );
+
+  const topSupply = useMemo<BarRow[]>(
+    () =>
+      stats.topSupply.map((t) => ({
+        key: t.address,
+        label: revealHidden(t.symbol),
+        value: t.value,
+        valueLabel: `${formatAmount(t.value)} ${revealHidden(t.currency)}`,
+        color: getCurrencyColor(t.currency),
+        title: `${revealHidden(t.symbol)}: ${t.value.toLocaleString()} ${revealHidden(t.currency)}`,
+      })),
+    [stats],
+  );
+
+  const topQuoteTokens = useMemo<BarRow[]>(
+    () =>
+      stats.topQuoteTokens.map((t) => ({
+        key: t.address,
+        label: revealHidden(t.symbol),
+        value: t.value,
+        valueLabel: t.value.toLocaleString(),
+        color: getCurrencyColor(t.currency),
+        title: `${revealHidden(t.symbol)}: ${t.value.toLocaleString()} direct children`,
+      })),
+    [stats],
+  );
+
+  const depthColumns = useMemo<Column[]>(
+    () =>
+      stats.depths.map((count, depth) => ({
+        key: String(depth),
+        value: count,
+        title: `Depth ${depth}: ${count.toLocaleString()} token${count === 1 ? "" : "s"}`,
+      })),
+    [stats],
+  );
+
+  const creationColumns = useMemo<Column[]>(
+    () =>
+      stats.creation.map((bin) => ({
+        key: String(bin.start),
+        value: bin.count,
+        title: `Blocks ${bin.start.toLocaleString()}\u2013${(bin.end - 1).toLocaleString()}: ${bin.count.toLocaleString()} created`,
+      })),
+    [stats],
+  );
+
+  const zeroShare = stats.tokenCount > 0 ? stats.zeroSupply / stats.tokenCount : 0;
+  const firstBin = stats.creation[0];
+  const lastBin = stats.creation[stats.creation.length - 1];
+
+  return (
+    <div
+      style={{
+        width,
+        height,
+        overflowY: "auto",
+        flexShrink: 0,
+        background: "#1e293b",
+        border: "1px solid #334155",
+        borderRadius: "8px",
+        padding: "10px 12px",
+        fontSize: "12px",
+        color: "#e2e8f0",
+        boxSizing: "border-box",
+      }}
+    >
+      <div style={{ fontWeight: 700, fontSize: "13px" }}>Statistics</div>
+      <div style={{ color: "#64748b", fontSize: "11px", marginTop: "2px" }}>
+        {stats.tokenCount.toLocaleString()} tokens in the filtered tree
+      </div>
+
+      <Section title="Zero-supply tokens">
+        <div style={{ display: "flex", alignItems: "center", gap: "12px" }}>
+          <ShareDonut part={stats.zeroSupply} total={stats.tokenCount} color="#f472b6" />
+          <div>
+            <div style={{ fontSize: "18px", fontWeight: 700 }}>{(zeroShare * 100).toFixed(1)}%</div>
+            <div style={{ color: "#94a3b8", fontSize: "11px" }}>
+              {stats.zeroSupply.toLocaleString()} of {stats.tokenCount.toLocaleString()} have no supply
+            </div>
+          </div>
+        </div>
+      </Section>
+
+      <Section title="Tokens per currency">
+        <BarChart rows={currencyCounts} width={chartWidth} />
+      </Section>
+
+      <Section title="Supply per currency (bars by PathUSD value)">
+        <BarChart rows={currencySupplies} width={chartWidth} />
+      </Section>
+
+      <Section title="Tokens by depth">
+        <ColumnChart
+          columns={depthColumns}
+          width={chartWidth}
+          color="#60a5fa"
+          startLabel="root"
+          endLabel={`depth ${Math.max(0, stats.depths.length - 1)}`}
+        />
+      </Section>
+
+      <Section title="Token creation over time">
+        {firstBin && lastBin ? (
+          <ColumnChart
+            columns={creationColumns}
+            width={chartWidth}
+            color="#a78bfa"
+            startLabel={`#${firstBin.start.toLocaleString()}`}
+            endLabel={`#${(lastBin.end - 1).toLocaleString()}`}
+          />
+        ) : (
+          <div style={{ color: "#64748b" }}>No factory tokens in the tree</div>
+        )}
+      </Section>
+
+      <Section title="Top tokens by supply (ranked by PathUSD value)">
+        <BarChart rows={topSupply} width={chartWidth} onClick={onSelect} />
+      </Section>
+
+      <Section title="Top quote tokens by child count">
+        <BarChart rows={topQuoteTokens} width={chartWidth} onClick={onSelect} />
+      </Section>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useEffect, useRef, useState } from "react";
+import type { NetworkConfig } from "./chain";
+import { fetchBlockTimestamp, findBlockAt } from "./fetchTokens";
+
+interface TimeTravelProps {
+  network: NetworkConfig;
+  /** Range the scrubber covers: from just before the first factory token to the synced head. */
+  minBlock: number;
+  maxBlock: number;
+  /** Block the tree is rebuilt at. */
+  block: number;
+  /** Block of the tree currently shown; differs from `block` while a frame is being built. */
+  shownBlock: number | null;
+  /** Tokens in the shown tree whose supply could not be read at that block. */
+  unreadSupplies: number;
+  playing: boolean;
+  onChange: (block: number) => void;
+  onTogglePlay: () => void;
+  onClose: () => void;
+}
+
+const buttonStyle = {
+  padding: "4px 10px",
+  borderRadius: "6px",
+  border: "1px solid #334155",
+  background: "#0f172a",
+  color: "#94a3b8",
+  cursor: "pointer",
+  fontSize: "12px",
+  whiteSpace: "nowrap" as const,
+};
+
+/** yyyy-mm-dd in local time, as used by date inputs. */
+function toDateInput(seconds: number): string {
+  const d = new Date(seconds * 1000);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export default function TimeTravel({
+  network,
+  minBlock,
+  maxBlock,
+  block,
+  shownBlock,
+  unreadSupplies,
+  playing,
+  onChange,
+  onTogglePlay,
+  onClose,
+}: TimeTravelProps) {
+  // Slider position while dragging; the tree is only rebuilt on release
+  const [draft, setDraft] = useState<number | null>(null);
+  const [time, setTime] = useState<{ block: number; seconds: number } | null>(null);
+  const [seeking, setSeeking] = useState(false);
+  // Date lookup in flight; dropped when another starts, the network changes or the panel closes
+  const seekRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchBlockTimestamp(network, block, controller.signal)
+      .then((seconds) => setTime({ block, seconds }))
+      .catch((err) => {
+        if (!controller.signal.aborted) console.warn(`Failed to read the time of block ${block}:`, err);
+      });
+    return () => controller.abort();
+  }, [network, block]);
+
+  useEffect(() => () => seekRef.current?.abort(), [network]);
+
+  function commit() {
+    if (draft !== null && draft !== block) onChange(draft);
+    setDraft(null);
+  }
+
+  function seekDate(value: string) {
+    if (!value) return;
+    // End of the chosen local day, so the tree includes everything created that day
+    const seconds = Math.floor(new Date(`${value}T23:59:59`).getTime() / 1000);
+    seekRef.current?.abort();
+    const controller = new AbortController();
+    seekRef.current = controller;
+    setSeeking(true);
+    findBlockAt(network, seconds, maxBlock, controller.signal)
+      .then((found) => {
+        if (!controller.signal.aborted) onChange(Math.max(minBlock, found));
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) console.warn("Failed to find a block for that date:", err);
+      })
+      .finally(() => {
+        if (seekRef.current === controller) setSeeking(false);
+      });
+  }
+
+  const value = draft ?? block;
+  const seconds = time?.block === block ? time.seconds : null;
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: "10px",
+        padding: "6px 12px",
+        marginBottom: "6px",
+        background: "#1e293b",
+        borderRadius: "8px",
+        border: "1px solid #334155",
+        fontSize: "12px",
+        color: "#94a3b8",
+      }}
+    >
+      <button onClick={onTogglePlay} title="Replay how the tree grew, from the first token to now" style={buttonStyle}>
+        {playing ? "Pause" : "\u25b6 Play"}
+      </button>
+      <input
+        type="range"
+        min={minBlock}
+        max={maxBlock}
+        value={value}
+        onChange={(e) => setDraft(Number(e.target.value))}
+        onPointerUp={commit}
+        onKeyUp={commit}
+        onBlur={commit}
+        style={{ flex: 1, accentColor: "#3b82f6", cursor: "pointer" }}
+      />
+      <span style={{ fontVariantNumeric: "tabular-nums", whiteSpace: "nowrap", color: "#e2e8f0" }}>
+        Block #{value.toLocaleString()}
+      </span>
+      <input
+        type="date"
+        value={seconds !== null ? toDateInput(seconds) : ""}
+        disabled={seeking}
+        onChange={(e) => seekDate(e.target.value)}
+        title="Jump to the last block of a day"
+        style={{ ...buttonStyle, colorScheme: "dark", cursor: seeking ? "default" : "pointer" }}
+      />
+      {seconds !== null && (
+        <span style={{ whiteSpace: "nowrap" }}>{new Date(seconds * 1000).toLocaleTimeString()}</span>
+      )}
+      {shownBlock !== block && <div className="spinner" style={{ width: 12, height: 12, borderWidth: 2 }} />}
+      {unreadSupplies > 0 && (
+        <span
+          title="The RPC could not serve state at this block (it may not be an archive node); these tokens are shown with zero supply"
+          style={{ color: "#fbbf24", whiteSpace: "nowrap" }}
+        >
+          {`\u26a0 ${unreadSupplies.toLocaleString()} supplies unavailable`}
+        </span>
+      )}
+      <button onClick={() => onChange(maxBlock)} disabled={block === maxBlock} title="Jump to the latest block" style={buttonStyle}>
+        Latest
+      </button>
+      <button
+        onClick={onClose}
+        title="Back to the latest state"
+        style={{ background: "none", border: "none", color: "#94a3b8", cursor: "pointer", fontSize: "15px", padding: 0 }}
+      >
+        &times;
+      </button>
+    </div>
+  );
+}
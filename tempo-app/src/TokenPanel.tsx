@@ -0,0 +1,230 @@
+import { useEffect, useMemo, useState, type CSSProperties, type ReactNode } from "react";
+import { maxUint256, zeroAddress } from "viem";
+import { explorerLink, type NetworkConfig } from "./chain";
+import { fetchTokenDetails, type TokenDetails, type TokenNode } from "./fetchTokens";
+import { shortHex } from "./format";
+import { revealHidden } from "./tokenSafety";
+import { formatExact, toUnits } from "./units";
+
+interface TokenPanelProps {
+  token: TokenNode;
+  /** Tokens currently in the tree, to name the quote token. */
+  tokens: TokenNode[];
+  network: NetworkConfig;
+  /** Snapshot replay: only the snapshot's fields are shown, without reading the chain. */
+  replay: boolean;
+  onSelect: (address: string) => void;
+  onClose: () => void;
+}
+
+type ChildSort = { key: "symbol" | "supply"; desc: boolean };
+
+const sortButtonStyle: CSSProperties = {
+  background: "none",
+  border: "none",
+  color: "inherit",
+  cursor: "pointer",
+  fontSize: "11px",
+  padding: 0,
+};
+
+function Row({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div style={{ display: "flex", justifyContent: "space-between", gap: "12px", padding: "3px 0" }}>
+      <span style={{ color: "#64748b", whiteSpace: "nowrap" }}>{label}</span>
+      <span style={{ textAlign: "right", overflow: "hidden", textOverflow: "ellipsis", fontVariantNumeric: "tabular-nums" }}>
+        {children}
+      </span>
+    </div>
+  );
+}
+
+/** An address or block, linked to the explorer when the network has one. */
+function ExplorerValue({
+  network,
+  kind,
+  value,
+  label,
+}: {
+  network: NetworkConfig;
+  kind: "address" | "block";
+  value: string | number;
+  label?: string;
+}) {
+  const href = explorerLink(network, kind, value);
+  const text = label ?? (typeof value === "string" ? shortHex(value) : value.toLocaleString());
+  if (!href) return <span title={String(value)}>{text}</span>;
+  return (
+    <a href={href} target="_blank" rel="noreferrer" title={String(value)} style={{ color: "#60a5fa", textDecoration: "none" }}>
+      {text}
+    </a>
+  );
+}
+
+export default function TokenPanel({ token, tokens, network, replay, onSelect, onClose }: TokenPanelProps) {
+  const [details, setDetails] = useState<{ key: string; data: TokenDetails | null; error: string | null } | null>(null);
+  const [sort, setSort] = useState<ChildSort>({ key: "supply", desc: true });
+
+  const key = `${network.id}:${token.address}`;
+  const loading = !replay && details?.key !== key;
+
+  useEffect(() => {
+    if (replay) return;
+    const controller = new AbortController();
+    fetchTokenDetails(network, token.address, token.createdBlock, controller.signal)
+      .then((data) => setDetails({ key, data, error: null }))
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setDetails({ key, data: null, error: err instanceof Error ? err.message : String(err) });
+      });
+    return () => controller.abort();
+  }, [key, replay, network, token.address, token.createdBlock]);
+
+  const symbols = useMemo(() => new Map(tokens.map((t) => [t.address.toLowerCase(), t.symbol])), [tokens]);
+
+  const children = useMemo(() => {
+    const sign = sort.desc ? -1 : 1;
+    return [...token.children].sort((a, b) =>
+      sort.key === "symbol"
+        ? sign * a.symbol.localeCompare(b.symbol)
+        : sign * (toUnits(a.totalSupply, a.decimals) - toUnits(b.totalSupply, b.decimals)),
+    );
+  }, [token.children, sort]);
+
+  const data = loading || replay ? null : details?.data;
+  const decimals = data?.decimals ?? token.decimals;
+  const quoteToken = data?.quoteToken ?? token.quoteToken;
+  const pending = loading ? "\u2026" : "\u2014";
+
+  function sortBy(key: ChildSort["key"]) {
+    setSort((prev) => (prev.key === key ? { key, desc: !prev.desc } : { key, desc: key === "supply" }));
+  }
+
+  const arrow = (key: ChildSort["key"]) => (sort.key === key ? (sort.desc ? " ▾" : " ▴") : "");
+
+  return (
+    <div
+      style={{
+        // Below the graph's zoom controls
+        position: "absolute",
+        top: 48,
+        right: 8,
+        width: "320px",
+        maxHeight: "calc(100% - 56px)",
+        overflowY: "auto",
+        zIndex: 6,
+        background: "#1e293b",
+        border: "1px solid #334155",
+        borderRadius: "8px",
+        padding: "10px 12px",
+        boxShadow: "0 4px 12px rgba(0,0,0,0.5)",
+        fontSize: "12px",
+        color: "#e2e8f0",
+        boxSizing: "border-box",
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "8px" }}>
+        <span style={{ fontWeight: 700, fontSize: "13px", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+          {revealHidden(token.symbol)} <span style={{ color: "#64748b", fontWeight: 400 }}>{revealHidden(token.name)}</span>
+        </span>
+        <button
+          onClick={onClose}
+          style={{ background: "none", border: "none", color: "#94a3b8", cursor: "pointer", fontSize: "15px", padding: 0 }}
+        >
+          &times;
+        </button>
+      </div>
+
+      <Row label="Address">
+        <ExplorerValue network={network} kind="address" value={token.address} />
+      </Row>
+      <Row label="Currency">{token.currency || "\u2014"}</Row>
+      <Row label="Quote token">
+        {quoteToken === zeroAddress ? (
+          "none (root)"
+        ) : (
+          <ExplorerValue network={network} kind="address" value={quoteToken} label={symbols.get(quoteToken.toLowerCase())} />
+        )}
+      </Row>
+      {token.nextQuoteToken && (
+        <Row label="Pending quote token">
+          <ExplorerValue
+            network={network}
+            kind="address"
+            value={token.nextQuoteToken}
+            label={symbols.get(token.nextQuoteToken.toLowerCase())}
+          />
+        </Row>
+      )}
+      <Row label="Total supply">{formatExact(token.totalSupply, decimals)}</Row>
+      <Row label="Supply cap">
+        {data?.supplyCap == null ? pending : data.supplyCap === maxUint256 ? "unlimited" : formatExact(data.supplyCap, decimals)}
+      </Row>
+      <Row label="Decimals">{data?.decimals ?? (replay ? token.decimals : pending)}</Row>
+      <Row label="Paused">
+        {data?.paused == null ? pending : data.paused ? <span style={{ color: "#f87171" }}>yes</span> : "no"}
+      </Row>
+      <Row label="Transfer policy">{data?.transferPolicyId == null ? pending : data.transferPolicyId.toString()}</Row>
+      <Row label="Created">
+        {token.createdBlock > 0 ? (
+          <>
+            <ExplorerValue network={network} kind="block" value={token.createdBlock} />
+            {data?.createdAt != null && (
+              <span style={{ color: "#64748b" }}>{` \u00b7 ${new Date(data.createdAt * 1000).toLocaleString()}`}</span>
+            )}
+          </>
+        ) : (
+          "genesis"
+        )}
+      </Row>
+      <Row label="Admin">{token.admin ? <ExplorerValue network={network} kind="address" value={token.admin} /> : "\u2014"}</Row>
+      <Row label="Salt">{token.salt ? <span title={token.salt}>{shortHex(token.salt)}</span> : "\u2014"}</Row>
+      {replay && (
+        <div style={{ color: "#64748b", marginTop: "6px" }}>
+          Live details (supply cap, pause state, transfer policy) are unavailable while replaying a snapshot.
+        </div>
+      )}
+      {!replay && details?.key === key && details.error && (
+        <div style={{ color: "#f87171", marginTop: "6px" }}>Could not read token details: {details.error}</div>
+      )}
+
+      <div style={{ borderTop: "1px solid #334155", marginTop: "8px", paddingTop: "8px" }}>
+        <div style={{ display: "flex", justifyContent: "space-between", color: "#94a3b8", marginBottom: "4px" }}>
+          <button onClick={() => sortBy("symbol")} style={sortButtonStyle}>
+            {token.children.length} child token{token.children.length === 1 ? "" : "s"}
+            {arrow("symbol")}
+          </button>
+          <button onClick={() => sortBy("supply")} style={sortButtonStyle}>
+            Supply{arrow("supply")}
+          </button>
+        </div>
+        {children.map((c) => (
+          <button
+            key={c.address}
+            onClick={() => onSelect(c.address)}
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              gap: "8px",
+              width: "100%",
+              background: "none",
+              border: "none",
+              color: "#e2e8f0",
+              fontSize: "12px",
+              padding: "3px 0",
+              cursor: "pointer",
+              textAlign: "left",
+            }}
+            onMouseEnter={(e) => (e.currentTarget.style.background = "#334155")}
+            onMouseLeave={(e) => (e.currentTarget.style.background = "none")}
+          >
+            <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{revealHidden(c.symbol)}</span>
+            <span style={{ color: "#94a3b8", fontVariantNumeric: "tabular-nums" }}>
+              {toUnits(c.totalSupply, c.decimals).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useMemo, useRef, useState } from "react";
+import type { TokenNode } from "./fetchTokens";
+import { formatTvl } from "./format";
+import { searchTokens } from "./search";
+import { revealHidden } from "./tokenSafety";
+
+interface TokenSearchProps {
+  /** Tokens currently in the tree. */
+  tokens: TokenNode[];
+  onSelect: (address: string) => void;
+}
+
+export default function TokenSearch({ tokens, onSelect }: TokenSearchProps) {
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const results = useMemo(() => searchTokens(tokens, query), [tokens, query]);
+
+  function choose(address: string) {
+    onSelect(address);
+    setQuery("");
+    setOpen(false);
+    inputRef.current?.blur();
+  }
+
+  return (
+    <div style={{ position: "relative" }}>
+      <input
+        ref={inputRef}
+        type="text"
+        value={query}
+        placeholder="Search symbol, name or address"
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActive(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        onKeyDown={(e) => {
+          if (e.key === "ArrowDown") {
+            e.preventDefault();
+            setActive((i) => Math.min(i + 1, results.length - 1));
+          } else if (e.key === "ArrowUp") {
+            e.preventDefault();
+            setActive((i) => Math.max(i - 1, 0));
+          } else if (e.key === "Enter" && results.length > 0) {
+            choose(results[Math.min(active, results.length - 1)].token.address);
+          } else if (e.key === "Escape") {
+            setOpen(false);
+            inputRef.current?.blur();
+          }
+        }}
+        style={{
+          width: "220px",
+          padding: "6px 10px",
+          background: "#1e293b",
+          border: "1px solid #334155",
+          borderRadius: "8px",
+          color: "#e2e8f0",
+          fontSize: "12px",
+          outline: "none",
+        }}
+      />
+      {open && results.length > 0 && (
+        <div
+          style={{
+            position: "absolute",
+            top: "100%",
+            left: 0,
+            width: "300px",
+            marginTop: "4px",
+            background: "#1e293b",
+            border: "1px solid #334155",
+            borderRadius: "8px",
+            boxShadow: "0 4px 12px rgba(0,0,0,0.5)",
+            zIndex: 20,
+            overflow: "hidden",
+          }}
+        >
+          {results.map(({ token }, i) => (
+            <button
+              key={token.address}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                choose(token.address);
+              }}
+              onMouseEnter={() => setActive(i)}
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                gap: "8px",
+                width: "100%",
+                textAlign: "left",
+                background: i === active ? "#334155" : "none",
+                border: "none",
+                color: "#e2e8f0",
+                fontSize: "12px",
+                padding: "6px 10px",
+                cursor: "pointer",
+              }}
+            >
+              <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                {revealHidden(token.symbol)} <span style={{ color: "#64748b" }}>{revealHidden(token.name)}</span>
+              </span>
+              <span style={{ color: "#94a3b8", fontVariantNumeric: "tabular-nums" }}>{formatTvl(token.tvl)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useMemo, useRef, useState, type CSSProperties } from "react";
+import { zeroAddress } from "viem";
+import type { TokenNode } from "./fetchTokens";
+import { formatTvl, shortHex } from "./format";
+import { revealHidden } from "./tokenSafety";
+import { toUnits } from "./units";
+
+interface TokenTableProps {
+  /** The filtered tree; the table lists every token in it. */
+  root: TokenNode;
+  width: number;
+  height: number;
+  selectedAddress: string | null;
+  onSelect: (address: string) => void;
+}
+
+interface TableRow {
+  node: TokenNode;
+  key: string;
+  quoteSymbol: string;
+  depth: number;
+  supply: number;
+}
+
+type ColumnKey = "symbol" | "name" | "currency" | "quote" | "depth" | "supply" | "subtree" | "children" | "address";
+
+interface Column {
+  key: ColumnKey;
+  label: string;
+  width: string;
+  numeric?: boolean;
+  title?: string;
+  sortValue: (row: TableRow) => string | number;
+}
+
+const ROW_HEIGHT = 26;
+const HEADER_HEIGHT = 30;
+/** Rows rendered above and below the visible window, so fast scrolling does not flash blank rows. */
+const OVERSCAN = 10;
+
+const COLUMNS: Column[] = [
+  { key: "symbol", label: "Symbol", width: "110px", sortValue: (r) => r.node.symbol.toLowerCase() },
+  { key: "name", label: "Name", width: "minmax(120px, 1fr)", sortValue: (r) => r.node.name.toLowerCase() },
+  { key: "currency", label: "Currency", width: "72px", sortValue: (r) => r.node.currency },
+  { key: "quote", label: "Quote token", width: "100px", sortValue: (r) => r.quoteSymbol.toLowerCase() },
+  { key: "depth", label: "Depth", width: "56px", numeric: true, sortValue: (r) => r.depth },
+  { key: "supply", label: "Supply", width: "130px", numeric: true, sortValue: (r) => r.supply },
+  {
+    key: "subtree",
+    label: "Subtree TVL",
+    width: "110px",
+    numeric: true,
+    title: "PathUSD value of the token's supply plus all its descendants'",
+    sortValue: (r) => r.node.subtreeTvl,
+  },
+  { key: "children", label: "Children", width: "70px", numeric: true, sortValue: (r) => r.node.children.length },
+  { key: "address", label: "Address", width: "130px", sortValue: (r) => r.key },
+];
+
+const GRID_TEMPLATE = COLUMNS.map((c) => c.width).join(" ");
+
+/** Flatten the tree into rows, skipping the synthetic root buildTree adds when no token quotes zeroAddress. */
+function collectRows(root: TokenNode): TableRow[] {
+  const rows: TableRow[] = [];
+  function walk(node: TokenNode, parent: TokenNode | null, depth: number) {
+    rows.push({
+      node,
+      key: node.address.toLowerCase(),
+      quoteSymbol: parent?.symbol ?? "",
+      depth,
+      supply: toUnits(node.totalSupply, node.decimals),
+    });
+    for (const c of node.children) walk(c, node, depth + 1);
+  }
+  if (root.address === zeroAddress) root.children.forEach((c) => walk(c, null, 0));
+  else walk(root, null, 0);
+  return rows;
+}
+
+function cellText(row: TableRow, key: ColumnKey): string {
+  const { node } = row;
+  switch (key) {
+    case "symbol":
+      return revealHidden(node.symbol);
+    case "name":
+      return revealHidden(node.name);
+    case "currency":
+      return revealHidden(node.currency) || "\u2014";
+    case "quote":
+      return row.quoteSymbol ? revealHidden(row.quoteSymbol) : "\u2014";
+    case "depth":
+      return String(row.depth);
+    case "supply":
+      return row.supply.toLocaleString(undefined, { maximumFractionDigits: 2 });
+    case "subtree":
+      return formatTvl(node.subtreeTvl);
+    case "children":
+      return node.children.length.toLocaleString();
+    case "address":
+      return shortHex(node.address);
+  }
+}
+
+const cellStyle: CSSProperties = {
+  padding: "0 8px",
+  overflow: "hidden",
+  textOverflow: "ellipsis",
+  whiteSpace: "nowrap",
+};
+
+export default function TokenTable({ root, width, height, selectedAddress, onSelect }: TokenTableProps) {
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<{ key: ColumnKey; desc: boolean }>({ key: "subtree", desc: true });
+  const [scrollTop, setScrollTop] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const allRows = useMemo(() => collectRows(root), [root]);
+
+  const rows = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const matching = q
+      ? allRows.filter(
+          (r) =>
+            r.node.symbol.toLowerCase().includes(q) ||
+            r.node.name.toLowerCase().includes(q) ||
+            r.node.currency.toLowerCase().includes(q) ||
+            r.quoteSymbol.toLowerCase().includes(q) ||
+            r.key.includes(q),
+        )
+      : allRows;
+    const column = COLUMNS.find((c) => c.key === sort.key)!;
+    const sign = sort.desc ? -1 : 1;
+    return [...matching].sort((a, b) => {
+      const va = column.sortValue(a);
+      const vb = column.sortValue(b);
+      if (typeof va === "number" && typeof vb === "number") return sign * (va - vb);
+      return sign * String(va).localeCompare(String(vb));
+    });
+  }, [allRows, query, sort]);
+
+  function sortBy(key: ColumnKey) {
+    const numeric = COLUMNS.find((c) => c.key === key)?.numeric ?? false;
+    setSort((prev) => (prev.key === key ? { key, desc: !prev.desc } : { key, desc: numeric }));
+  }
+
+  function changeQuery(value: string) {
+    setQuery(value);
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }
+
+  // Only the rows in (or near) the viewport are rendered
+  const bodyHeight = height - HEADER_HEIGHT - 36;
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(rows.length, Math.ceil((scrollTop + bodyHeight) / ROW_HEIGHT) + OVERSCAN);
+  const selected = selectedAddress?.toLowerCase() ?? null;
+
+  return (
+    <div style={{ width, height, display: "flex", flexDirection: "column", fontSize: "12px", color: "#e2e8f0" }}>
+      <div style={{ display: "flex", alignItems: "center", gap: "10px", marginBottom: "8px" }}>
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => changeQuery(e.target.value)}
+          placeholder="Filter by symbol, name, currency, quote token or address"
+          style={{
+            width: "340px",
+            padding: "6px 10px",
+            borderRadius: "8px",
+            border: "1px solid #334155",
+            background: "#1e293b",
+            color: "#e2e8f0",
+            fontSize: "12px",
+            outline: "none",
+          }}
+        />
+        <span style={{ color: "#64748b" }}>
+          {rows.length === allRows.length
+            ? `${allRows.length.toLocaleString()} tokens`
+            : `${rows.length.toLocaleString()} of ${allRows.length.toLocaleString()} tokens`}
+        </span>
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        style={{
+          flex: 1,
+          overflow: "auto",
+          background: "#1e293b",
+          border: "1px solid #334155",
+          borderRadius: "8px",
+        }}
+      >
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: GRID_TEMPLATE,
+            position: "sticky",
+            top: 0,
+            zIndex: 1,
+            height: HEADER_HEIGHT,
+            alignItems: "center",
+            background: "#0f172a",
+            borderBottom: "1px solid #334155",
+            minWidth: "fit-content",
+          }}
+        >
+          {COLUMNS.map((c) => (
+            <button
+              key={c.key}
+              onClick={() => sortBy(c.key)}
+              title={c.title}
+              style={{
+                ...cellStyle,
+                background: "none",
+                border: "none",
+                color: sort.key === c.key ? "#e2e8f0" : "#94a3b8",
+                cursor: "pointer",
+                fontSize: "11px",
+                fontWeight: 600,
+                textAlign: c.numeric ? "right" : "left",
+              }}
+            >
+              {c.label}
+              {sort.key === c.key ? (sort.desc ? " \u25be" : " \u25b4") : ""}
+            </button>
+          ))}
+        </div>
+
+        <div style={{ position: "relative", height: rows.length * ROW_HEIGHT, minWidth: "fit-content" }}>
+          {rows.slice(first, last).map((row, i) => (
+            <div
+              key={row.key}
+              onClick={() => onSelect(row.node.address)}
+              title="Show in the radial tree"
+              style={{
+                display: "grid",
+                gridTemplateColumns: GRID_TEMPLATE,
+                alignItems: "center",
+                position: "absolute",
+                top: (first + i) * ROW_HEIGHT,
+                left: 0,
+                right: 0,
+                height: ROW_HEIGHT,
+                cursor: "pointer",
+                background: row.key === selected ? "#1d4ed8" : (first + i) % 2 ? "#1e293b" : "#172033",
+              }}
+              onMouseEnter={(e) => row.key !== selected && (e.currentTarget.style.background = "#334155")}
+              onMouseLeave={(e) =>
+                row.key !== selected && (e.currentTarget.style.background = (first + i) % 2 ? "#1e293b" : "#172033")
+              }
+            >
+              {COLUMNS.map((c) => (
+                <span
+                  key={c.key}
+                  title={c.key === "address" ? row.node.address : undefined}
+                  style={{
+                    ...cellStyle,
+                    textAlign: c.numeric ? "right" : "left",
+                    fontVariantNumeric: c.numeric ? "tabular-nums" : undefined,
+                    color: c.key === "symbol" ? "#e2e8f0" : "#cbd5e1",
+                    fontWeight: c.key === "symbol" ? 600 : 400,
+                  }}
+                >
+                  {cellText(row, c.key)}
+                </span>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,43 @@
-import { useEffect, useRef, useCallback } from "react";
+import { useEffect, useRef, useCallback, useMemo, useState, type RefObject } from "react";
 import * as d3 from "d3";
-import type { TokenNode } from "./fetchTokens";
+import type { TokenChange } from "./compare";
+import { pairDepth, type PairLiquidity, type QuoteTokenChange, type TokenNode } from "./fetchTokens";
+import { formatAmount, formatTvl } from "./format";
+import type { PriceSource } from "./pricing";
+import { inspectToken, revealHidden, type SafetyWarning } from "./tokenSafety";
+import { toUnits } from "./units";
+
+export type EdgeMetric = "supply" | "liquidity";
+
+/** "auto" draws SVG, switching to canvas once the drawn tree exceeds CANVAS_NODE_THRESHOLD nodes. */
+export type Renderer = "auto" | "svg" | "canvas";
 
 interface TreeGraphProps {
   root: TokenNode;
   width: number;
   height: number;
+  /** Animate nodes that were not present in the previous draw (used by live mode). */
+  animateNew?: boolean;
+  /** DEX top-of-book liquidity keyed by lowercased base token address. */
+  liquidity?: Map<string, PairLiquidity>;
+  /** What edge widths and edge labels represent. */
+  edgeMetric?: EdgeMetric;
+  /** Addresses to highlight instead of the click selection (e.g. a swap route). */
+  highlightPath?: string[] | null;
+  /** When set, node clicks are reported here instead of toggling the ancestor-path selection. */
+  onNodeClick?: (address: string) => void;
+  /** Selected token whose ancestor path is highlighted; kept across redraws and view switches. */
+  selectedAddress?: string | null;
+  onSelectionChange?: (address: string | null) => void;
+  /** Smoothly center this token, expanding its ancestors; a new `key` flies again. */
+  focusRequest?: { address: string; key: number } | null;
+  /** Nodes at this depth are drawn collapsed (double-click still expands them). */
+  maxDepth?: number;
+  /** In large sibling groups, children whose subtree TVL is below this merge into one "N others" node; 0 disables. */
+  othersBelowTvl?: number;
+  renderer?: Renderer;
+  /** Compare mode: changes against a baseline by lowercased address, drawn as rings and edge notes. */
+  changes?: Map<string, TokenChange> | null;
 }
 
 const CURRENCY_COLORS: Record<string, string> = {
@@ -30,14 +62,11 @@ function getColor(currency: string): string {
   return CURRENCY_COLORS[currency] || "#94a3b8";
 }
 
-function formatTvl(n: number): string {
-  if (n >= 1_000_000_000) return `$${(n / 1_000_000_000).toFixed(1)}B`;
-  if (n >= 1_000_000) return `$${(n / 1_000_000).toFixed(1)}M`;
-  if (n >= 1_000) return `$${(n / 1_000).toFixed(1)}K`;
-  if (n >= 1) return `$${n.toFixed(0)}`;
-  if (n > 0) return `$${n.toFixed(2)}`;
-  return "$0";
-}
+const PRICE_SOURCE_LABELS: Record<PriceSource, string> = {
+  dex: "DEX",
+  fx: "FX table",
+  unknown: "assumed parity",
+};
 
 interface HNode {
   name: string;
@@ -45,204 +74,902 @@ interface HNode {
   address: string;
   currency: string;
   totalSupply: number;
+  price: number;
+  priceSource: PriceSource;
+  tvl: number;
   childCount: number;
+  nextQuoteToken: string | null;
+  quoteHistory: QuoteTokenChange[];
+  liquidity?: PairLiquidity;
+  warnings: SafetyWarning[];
+  /** Children are hidden; `hiddenCount`/`hiddenTvl` summarize them. */
+  collapsed: boolean;
+  /** Tokens not drawn below this node: its descendants when collapsed, its members for an "others" node. */
+  hiddenCount: number;
+  hiddenTvl: number;
+  /** Set on an "N others" aggregate node: address of the parent whose small children it merges. */
+  othersOf?: string;
+  /** How the token differs from the comparison baseline. */
+  change?: TokenChange;
   children?: HNode[];
 }
 
-function toHNode(node: TokenNode): HNode {
+// ── Collapsing ────────────────────────────────────────────────────
+
+/** Sibling groups up to this size are never merged into an "others" node. */
+const OTHERS_MIN_SIBLINGS = 12;
+
+interface CollapseState {
+  maxDepth: number;
+  othersBelowTvl: number;
+  /** Double-click overrides by address: true = collapsed, false = expanded. */
+  overrides: Map<string, boolean>;
+  /** Parents whose "others" group was expanded. */
+  expandedGroups: Set<string>;
+  /** Ancestors of the focused token, kept open so it stays visible. */
+  forcedOpen: Set<string>;
+}
+
+/** Addresses from the root down to (excluding) `address`, or an empty set if it is not in the tree. */
+function ancestorsOf(root: TokenNode, address: string): Set<string> {
+  const path: string[] = [];
+  function walk(node: TokenNode): boolean {
+    if (node.address === address) return true;
+    path.push(node.address);
+    for (const c of node.children) if (walk(c)) return true;
+    path.pop();
+    return false;
+  }
+  return walk(root) ? new Set(path) : new Set();
+}
+
+function othersNode(parent: TokenNode, members: TokenNode[]): HNode {
+  let hiddenCount = 0;
+  let hiddenTvl = 0;
+  for (const m of members) {
+    hiddenCount += 1 + m.descendantCount;
+    hiddenTvl += m.subtreeTvl;
+  }
+  return {
+    name: `${members.length} smaller tokens`,
+    symbol: `${members.length} others`,
+    address: `${parent.address}#others`,
+    currency: "",
+    totalSupply: 0,
+    price: 1,
+    priceSource: "unknown",
+    tvl: hiddenTvl,
+    childCount: 0,
+    nextQuoteToken: null,
+    quoteHistory: [],
+    warnings: [],
+    collapsed: true,
+    hiddenCount,
+    hiddenTvl,
+    othersOf: parent.address,
+  };
+}
+
+function toHNode(
+  node: TokenNode,
+  liquidity: Map<string, PairLiquidity> | undefined,
+  changes: Map<string, TokenChange> | null | undefined,
+  collapse: CollapseState,
+  depth = 0,
+): HNode {
+  const collapsed =
+    node.children.length > 0 &&
+    !collapse.forcedOpen.has(node.address) &&
+    (collapse.overrides.get(node.address) ?? depth >= collapse.maxDepth);
+
+  let children: HNode[] | undefined;
+  if (!collapsed && node.children.length > 0) {
+    let shown = node.children;
+    let small: TokenNode[] = [];
+    const grouped =
+      collapse.othersBelowTvl > 0 &&
+      node.children.length > OTHERS_MIN_SIBLINGS &&
+      !collapse.expandedGroups.has(node.address) &&
+      !collapse.forcedOpen.has(node.address);
+    if (grouped) {
+      shown = node.children.filter((c) => c.subtreeTvl >= collapse.othersBelowTvl);
+      small = node.children.filter((c) => c.subtreeTvl < collapse.othersBelowTvl);
+      // Folding a single token only hides it
+      if (small.length < 2) {
+        shown = node.children;
+        small = [];
+      }
+    }
+    children = shown.map((c) => toHNode(c, liquidity, changes, collapse, depth + 1));
+    if (small.length > 0) children.push(othersNode(node, small));
+  }
+
   return {
     name: node.name,
     symbol: node.symbol,
     address: node.address,
     currency: node.currency,
-    totalSupply: node.totalSupply,
+    totalSupply: toUnits(node.totalSupply, node.decimals),
+    price: node.price,
+    priceSource: node.priceSource,
+    tvl: node.tvl,
     childCount: node.children.length,
-    children: node.children.length > 0 ? node.children.map(toHNode) : undefined,
+    nextQuoteToken: node.nextQuoteToken,
+    quoteHistory: node.quoteHistory,
+    liquidity: liquidity?.get(node.address.toLowerCase()),
+    warnings: inspectToken(node),
+    collapsed,
+    hiddenCount: collapsed ? node.descendantCount : 0,
+    hiddenTvl: collapsed ? node.subtreeTvl - node.tvl : 0,
+    change: changes?.get(node.address.toLowerCase()),
+    children,
   };
 }
 
+function nodeRadius(depth: number, tvl: number): number {
+  if (depth === 0) return 16;
+  if (tvl >= 1_000_000) return 8;
+  if (tvl >= 1_000) return 6;
+  return 4;
+}
+
+// ── Comparison overlay ────────────────────────────────────────────
+
+const CHANGE_COLORS = {
+  added: "#22c55e",
+  removed: "#ef4444",
+  reparented: "#f59e0b",
+  supplyUp: "#38bdf8",
+  supplyDown: "#f472b6",
+};
+
+function changeColor(change: TokenChange): string {
+  if (change.kind === "supply") return change.tvlDelta >= 0 ? CHANGE_COLORS.supplyUp : CHANGE_COLORS.supplyDown;
+  return CHANGE_COLORS[change.kind];
+}
+
+function formatSupplyChange(change: TokenChange): string {
+  const before = change.supplyBefore ?? 0;
+  const after = change.supplyAfter ?? 0;
+  if (before > 0) {
+    const pct = ((after - before) / before) * 100;
+    return `${pct >= 0 ? "+" : ""}${Math.abs(pct) >= 10 ? pct.toFixed(0) : pct.toFixed(1)}%`;
+  }
+  return `+${formatAmount(after)}`;
+}
+
+/** Short note on the edge into a changed token. */
+function changeNote(change: TokenChange, symbolOf: (address: string) => string): string {
+  switch (change.kind) {
+    case "added":
+      return "new";
+    case "removed":
+      return "removed";
+    case "reparented":
+      return `from ${symbolOf(change.parentBefore!)}`;
+    case "supply":
+      return formatSupplyChange(change);
+  }
+}
+
+// ── Tooltip ───────────────────────────────────────────────────────
+
+type TooltipSelection = d3.Selection<HTMLDivElement, unknown, HTMLElement, unknown>;
+
+/**
+ * Fill the tooltip for a node. Name, symbol and currency are attacker-controlled
+ * (permissionless TokenCreated events), so everything is inserted with .text().
+ */
+function renderTooltip(tooltipDiv: TooltipSelection, nd: HNode, symbolOf: (address: string) => string) {
+  tooltipDiv.selectAll("*").remove();
+  const hint = (text: string) =>
+    tooltipDiv.append("div").style("color", "#475569").style("font-size", "11px").style("margin-top", "6px").text(text);
+
+  function row(label: string, value: string, valueColor?: string) {
+    const r = tooltipDiv
+      .append("div")
+      .style("display", "flex")
+      .style("justify-content", "space-between")
+      .style("gap", "12px")
+      .style("margin-bottom", "3px");
+    r.append("span").style("color", "#64748b").text(label);
+    const v = r.append("span").text(value);
+    if (valueColor) v.style("color", valueColor).style("font-weight", "600");
+    return v;
+  }
+
+  if (nd.warnings.length > 0) {
+    const box = tooltipDiv
+      .append("div")
+      .style("background", "#451a03")
+      .style("border", "1px solid #b45309")
+      .style("border-radius", "6px")
+      .style("padding", "4px 8px")
+      .style("margin-bottom", "6px")
+      .style("color", "#fbbf24")
+      .style("font-size", "11px");
+    box.append("div").style("font-weight", "700").text("\u26A0 Suspicious token");
+    for (const w of nd.warnings) box.append("div").text(w.message);
+  }
+
+  if (nd.othersOf) {
+    tooltipDiv.append("div").style("font-weight", "700").style("font-size", "15px").style("margin-bottom", "6px").text(nd.name);
+    row("Tokens", nd.hiddenCount.toLocaleString());
+    row("TVL (PathUSD)", formatTvl(nd.hiddenTvl)).style("font-weight", "600");
+    row("Quote token", symbolOf(nd.othersOf));
+    hint("Double-click to show them");
+    return;
+  }
+
+  tooltipDiv
+    .append("div")
+    .style("font-weight", "700")
+    .style("font-size", "15px")
+    .style("margin-bottom", "2px")
+    .text(revealHidden(nd.name));
+  tooltipDiv
+    .append("div")
+    .style("color", "#94a3b8")
+    .style("font-size", "12px")
+    .style("margin-bottom", "6px")
+    .text(revealHidden(nd.symbol));
+
+  row("Currency", revealHidden(nd.currency), getColor(nd.currency));
+  row("TVL (PathUSD)", formatTvl(nd.tvl)).style("font-weight", "600");
+  row("Supply", `${formatAmount(nd.totalSupply)} ${revealHidden(nd.currency)}`);
+  row("Price", `${nd.price.toPrecision(4)} (${PRICE_SOURCE_LABELS[nd.priceSource]})`);
+  if (nd.liquidity) {
+    const base = revealHidden(nd.symbol);
+    row("DEX bid / ask", `${formatAmount(nd.liquidity.bidLiquidity)} / ${formatAmount(nd.liquidity.askLiquidity)} ${base}`);
+    if (nd.liquidity.midPrice !== null) row("Mid price", nd.liquidity.midPrice.toFixed(5));
+  }
+  if (nd.childCount > 0) row("Children", String(nd.childCount));
+  if (nd.collapsed) row("Hidden descendants", `${nd.hiddenCount.toLocaleString()} \u00b7 ${formatTvl(nd.hiddenTvl)}`, "#94a3b8");
+  if (nd.nextQuoteToken) row("Pending quote token", symbolOf(nd.nextQuoteToken), "#fbbf24");
+  if (nd.change) {
+    const c = nd.change;
+    const detail =
+      c.kind === "supply" || c.kind === "reparented"
+        ? `${formatAmount(c.supplyBefore ?? 0)} \u2192 ${formatAmount(c.supplyAfter ?? 0)} (${formatSupplyChange(c)})`
+        : changeNote(c, symbolOf);
+    row("Since baseline", detail, changeColor(c));
+    if (c.kind === "reparented") row("Previous quote token", symbolOf(c.parentBefore!), changeColor(c));
+  }
+  if (nd.quoteHistory.length > 1) {
+    const history = tooltipDiv.append("div").style("margin-top", "4px");
+    history.append("div").style("color", "#64748b").style("margin-bottom", "2px").text("Parent history");
+    for (const change of nd.quoteHistory) {
+      const entry = history
+        .append("div")
+        .style("display", "flex")
+        .style("justify-content", "space-between")
+        .style("gap", "12px")
+        .style("font-size", "12px");
+      entry.append("span").text(symbolOf(change.quoteToken));
+      entry
+        .append("span")
+        .style("color", "#64748b")
+        .text(change.blockNumber === 0 ? "genesis" : `block ${change.blockNumber.toLocaleString()}`);
+    }
+  }
+
+  tooltipDiv
+    .append("div")
+    .style("color", "#475569")
+    .style("font-size", "10px")
+    .style("margin-top", "6px")
+    .style("font-family", "monospace")
+    .style("word-break", "break-all")
+    .text(nd.address);
+  if (nd.childCount > 0) hint(nd.collapsed ? "Double-click to expand" : "Double-click to collapse");
+}
+
+/** The shared hover tooltip, created on first use. */
+function getTooltip(): TooltipSelection {
+  const existing = d3.select<HTMLDivElement, unknown>("#tree-tooltip");
+  if (!existing.empty()) return existing;
+  return d3
+    .select("body")
+    .append("div")
+    .attr("id", "tree-tooltip")
+    .style("position", "fixed")
+    .style("pointer-events", "none")
+    .style("background", "#1e1e2e")
+    .style("border", "1px solid #334155")
+    .style("border-radius", "8px")
+    .style("padding", "10px 14px")
+    .style("font-size", "13px")
+    .style("color", "#e2e8f0")
+    .style("z-index", "1000")
+    .style("min-width", "220px")
+    .style("box-shadow", "0 4px 12px rgba(0,0,0,0.5)")
+    .style("display", "none");
+}
+
 // Convert radial coordinates (angle, radius) to cartesian (x, y)
 function radialPoint(angle: number, radius: number): [number, number] {
   return [radius * Math.cos(angle - Math.PI / 2), radius * Math.sin(angle - Math.PI / 2)];
 }
 
-export default function TreeGraph({ root, width, height }: TreeGraphProps) {
+// ── Layout ────────────────────────────────────────────────────────
+
+type Point = d3.HierarchyPointNode<HNode>;
+type Link = d3.HierarchyPointLink<HNode>;
+
+/** Radial tree layout — spreads children around the center. */
+function layoutTree(data: HNode, width: number, height: number): Point {
+  const radius = Math.min(width, height) / 2 - 120;
+  return d3
+    .tree<HNode>()
+    .size([2 * Math.PI, Math.max(radius, 150)])
+    .separation((a, b) => (a.parent === b.parent ? 1 : 2) / a.depth)(d3.hierarchy(data));
+}
+
+// Value carried by the edge into a node: the child's supply, or its pair's DEX depth
+function edgeValue(target: Point, metric: EdgeMetric): number {
+  return metric === "liquidity" ? pairDepth(target.data.liquidity) : target.data.tvl;
+}
+
+// DEX depth is in the base token (the child), not PathUSD
+function formatEdgeValue(target: Point, metric: EdgeMetric, value: number): string {
+  return metric === "liquidity" ? `${formatAmount(value)} ${revealHidden(target.data.symbol)}` : formatTvl(value);
+}
+
+function edgeWidth(value: number): number {
+  if (value >= 1_000_000) return 2.5;
+  if (value >= 1_000) return 1.8;
+  return 1;
+}
+
+function countNodes(node: HNode): number {
+  let count = 1;
+  for (const c of node.children ?? []) count += countNodes(c);
+  return count;
+}
+
+function nodePoint(d: Point): [number, number] {
+  return d.depth === 0 ? [0, 0] : radialPoint(d.x, d.y);
+}
+
+/** Addresses from the root down to and including `node`. */
+function pathTo(node: Point): Set<string> {
+  const path = new Set<string>();
+  for (let cur: Point | null = node; cur; cur = cur.parent) path.add(cur.data.address);
+  return path;
+}
+
+function symbolLookup(nodes: Point[]): (address: string) => string {
+  const symbolByAddr = new Map(nodes.map((n) => [n.data.address.toLowerCase(), revealHidden(n.data.symbol)]));
+  return (address) => symbolByAddr.get(address.toLowerCase()) ?? `${address.slice(0, 6)}\u2026${address.slice(-4)}`;
+}
+
+// ── Zoom ──────────────────────────────────────────────────────────
+
+interface ZoomBinding {
+  /** Drawing surface the zoom behavior is attached to. */
+  el: Element;
+  zoom: d3.ZoomBehavior<Element, unknown>;
+  /** Applies a transform to the current drawing; replaced on every draw. */
+  onZoom: (transform: d3.ZoomTransform) => void;
+}
+
+/**
+ * Attach zoom to a drawing surface once per element. A new surface (first draw,
+ * or a switch between SVG and canvas) starts centered or from the previous view.
+ */
+function bindZoom(
+  ref: RefObject<ZoomBinding | null>,
+  el: Element,
+  onZoom: (transform: d3.ZoomTransform) => void,
+  width: number,
+  height: number,
+): d3.ZoomBehavior<Element, unknown> {
+  const bound = ref.current;
+  if (bound?.el === el) {
+    bound.onZoom = onZoom;
+    return bound.zoom;
+  }
+  const binding: ZoomBinding = { el, onZoom, zoom: d3.zoom<Element, unknown>().scaleExtent([0.3, 5]) };
+  binding.zoom.on("zoom", (event: d3.D3ZoomEvent<Element, unknown>) => binding.onZoom(event.transform));
+  const initial = bound ? d3.zoomTransform(bound.el) : d3.zoomIdentity.translate(width / 2, height / 2);
+  ref.current = binding;
+  // Double-click toggles collapse instead of zooming
+  d3.select(el).call(binding.zoom).on("dblclick.zoom", null).call(binding.zoom.transform, initial);
+  return binding.zoom;
+}
+
+/** Transform that puts `node` at the center, zooming in if needed. */
+function centerOn(node: Point, current: d3.ZoomTransform, width: number, height: number): d3.ZoomTransform {
+  const [x, y] = nodePoint(node);
+  const k = Math.max(current.k, 1.5);
+  return d3.zoomIdentity.translate(width / 2 - x * k, height / 2 - y * k).scale(k);
+}
+
+// ── Canvas renderer ───────────────────────────────────────────────
+
+/** Above this many drawn nodes, the "auto" renderer switches from SVG to canvas. */
+const CANVAS_NODE_THRESHOLD = 3000;
+/** Most node labels painted per canvas frame; the largest tokens in view win. */
+const MAX_CANVAS_LABELS = 300;
+/** A non-root node is labeled once it is at least this big on screen (px). */
+const LABEL_MIN_SCREEN_RADIUS = 8;
+/** Edge labels appear from this zoom level. */
+const EDGE_LABEL_MIN_SCALE = 1.5;
+const FONT_FAMILY = `"Inter", system-ui, -apple-system, sans-serif`;
+/** Enter animation for newly streamed nodes (ms); the ring around them fades over 1.5× this. */
+const ENTER_DUR = 900;
+
+interface CanvasScene {
+  nodes: Point[];
+  links: Link[];
+  /** Nodes by TVL descending: label priority. */
+  byTvl: Point[];
+  /** Cartesian layout position of every node. */
+  pos: Map<Point, [number, number]>;
+  edgeMetric: EdgeMetric;
+  symbolOf: (address: string) => string;
+  /** Nodes new since the previous draw, ringed while the enter animation runs. */
+  entering: Point[];
+  /** `performance.now()` when the enter animation started. */
+  enterStart: number;
+}
+
+/**
+ * Paint the tree for one zoom transform. Nodes and edges outside the viewport
+ * are skipped, and labels follow a level of detail: only nodes big enough on
+ * screen get one, at most MAX_CANVAS_LABELS, largest TVL first. Returns true
+ * while the enter animation is still running and needs another frame.
+ */
+function paintCanvas(
+  ctx: CanvasRenderingContext2D,
+  scene: CanvasScene,
+  t: d3.ZoomTransform,
+  width: number,
+  height: number,
+  highlighted: Set<string> | null,
+): boolean {
+  const dpr = window.devicePixelRatio || 1;
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+  ctx.translate(t.x, t.y);
+  ctx.scale(t.k, t.k);
+
+  // Visible region in layout coordinates, padded for labels
+  const margin = 60 / t.k;
+  const [x0, y0] = t.invert([0, 0]);
+  const [x1, y1] = t.invert([width, height]);
+  const inView = (x: number, y: number) => x >= x0 - margin && x <= x1 + margin && y >= y0 - margin && y <= y1 + margin;
+  const onPath = (d: Point) => !highlighted || highlighted.has(d.data.address);
+
+  // Edges
+  for (const l of scene.links) {
+    const [sx, sy] = scene.pos.get(l.source)!;
+    const [tx, ty] = scene.pos.get(l.target)!;
+    const [cx, cy] = radialPoint(l.target.x, l.source.y);
+    if (!inView(sx, sy) && !inView(tx, ty) && !inView(cx, cy)) continue;
+    const lit = onPath(l.source) && onPath(l.target);
+    ctx.globalAlpha = 0.35 * (lit ? 1 : 0.03);
+    ctx.strokeStyle = getColor(l.target.data.currency);
+    ctx.lineWidth = highlighted && lit ? 3 : edgeWidth(edgeValue(l.target, scene.edgeMetric));
+    ctx.beginPath();
+    ctx.moveTo(sx, sy);
+    ctx.quadraticCurveTo(cx, cy, tx, ty);
+    ctx.stroke();
+  }
+
+  // Nodes
+  for (const d of scene.nodes) {
+    const [x, y] = scene.pos.get(d)!;
+    if (!inView(x, y)) continue;
+    const alpha = onPath(d) ? 1 : 0.04;
+    const color = d.data.othersOf ? "#64748b" : getColor(d.data.currency);
+    ctx.beginPath();
+    ctx.arc(x, y, nodeRadius(d.depth, d.data.tvl), 0, 2 * Math.PI);
+    ctx.globalAlpha = 0.9 * alpha;
+    ctx.fillStyle = d.data.othersOf ? "#334155" : color;
+    ctx.fill();
+    ctx.globalAlpha = alpha;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = d.depth === 0 ? 3 : d.data.collapsed ? 2.5 : 1.5;
+    ctx.setLineDash(d.data.collapsed ? [2, 2] : []);
+    ctx.stroke();
+    if (d.data.change) {
+      ctx.beginPath();
+      ctx.arc(x, y, nodeRadius(d.depth, d.data.tvl) + 3, 0, 2 * Math.PI);
+      ctx.strokeStyle = changeColor(d.data.change);
+      ctx.lineWidth = 2;
+      ctx.setLineDash(d.data.change.kind === "removed" ? [3, 2] : []);
+      ctx.stroke();
+    }
+  }
+  ctx.setLineDash([]);
+
+  // Enter rings: expand from the node to a fixed radius while fading out, as in SVG mode
+  const progress = (performance.now() - scene.enterStart) / (ENTER_DUR * 1.5);
+  const animating = scene.entering.length > 0 && progress < 1;
+  if (animating) {
+    ctx.lineWidth = 2;
+    for (const d of scene.entering) {
+      const [x, y] = scene.pos.get(d)!;
+      if (!onPath(d) || !inView(x, y)) continue;
+      const r = nodeRadius(d.depth, d.data.tvl);
+      ctx.beginPath();
+      ctx.arc(x, y, r + (28 - r) * progress, 0, 2 * Math.PI);
+      ctx.globalAlpha = 1 - progress;
+      ctx.strokeStyle = getColor(d.data.currency);
+      ctx.stroke();
+    }
+  }
+
+  // Labels
+  ctx.globalAlpha = 1;
+  let budget = MAX_CANVAS_LABELS;
+  for (const d of scene.byTvl) {
+    if (budget === 0) break;
+    const [x, y] = scene.pos.get(d)!;
+    const r = nodeRadius(d.depth, d.data.tvl);
+    if (!onPath(d) || !inView(x, y) || (d.depth > 0 && r * t.k < LABEL_MIN_SCREEN_RADIUS)) continue;
+    budget--;
+
+    const value = edgeValue(d, scene.edgeMetric);
+    const change = d.data.change;
+    if (d.parent && t.k >= EDGE_LABEL_MIN_SCALE && (value > 0 || change)) {
+      const [mx, my] = radialPoint((d.parent.x + d.x) / 2, (d.parent.y + d.y) / 2);
+      ctx.globalAlpha = change ? 0.9 : 0.6;
+      ctx.fillStyle = change ? changeColor(change) : getColor(d.data.currency);
+      ctx.font = `500 8px ${FONT_FAMILY}`;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText(change ? changeNote(change, scene.symbolOf) : formatEdgeValue(d, scene.edgeMetric, value), mx, my);
+      ctx.globalAlpha = 1;
+    }
+
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.textBaseline = "middle";
+    if (d.data.warnings.length > 0) {
+      ctx.font = `10px ${FONT_FAMILY}`;
+      ctx.textAlign = "center";
+      ctx.fillStyle = "#fbbf24";
+      ctx.fillText("\u26A0", r - 1, -r - 5);
+    }
+    if (d.data.collapsed && d.data.hiddenCount > 0 && !d.data.othersOf) {
+      ctx.font = `8px ${FONT_FAMILY}`;
+      ctx.textAlign = "center";
+      ctx.fillStyle = "#94a3b8";
+      ctx.fillText(`+${d.data.hiddenCount.toLocaleString()} \u00b7 ${formatTvl(d.data.hiddenTvl)}`, 0, r + 9);
+    }
+    ctx.fillStyle = "#e2e8f0";
+    if (d.depth === 0) {
+      ctx.font = `700 14px ${FONT_FAMILY}`;
+      ctx.textAlign = "center";
+      ctx.fillText(revealHidden(d.data.symbol), 0, -24);
+      if (d.data.tvl > 0) {
+        ctx.font = `10px ${FONT_FAMILY}`;
+        ctx.fillStyle = "#64748b";
+        ctx.fillText(formatTvl(d.data.tvl), 0, 24);
+      }
+    } else {
+      // Radially oriented, outside the circle, flipped on the left half to stay upright
+      const flip = d.x > Math.PI;
+      ctx.rotate(d.x - Math.PI / 2 + (flip ? Math.PI : 0));
+      ctx.font = `500 10px ${FONT_FAMILY}`;
+      ctx.textAlign = flip ? "end" : "start";
+      ctx.fillText(revealHidden(d.data.symbol), flip ? -(r + 5) : r + 5, 0);
+    }
+    ctx.restore();
+  }
+  return animating;
+}
+
+export default function TreeGraph({
+  root,
+  width,
+  height,
+  animateNew = false,
+  liquidity,
+  edgeMetric = "supply",
+  highlightPath = null,
+  onNodeClick,
+  selectedAddress,
+  onSelectionChange,
+  focusRequest,
+  maxDepth = Infinity,
+  othersBelowTvl = 0,
+  renderer = "auto",
+  changes = null,
+}: TreeGraphProps) {
   const svgRef = useRef<SVGSVGElement>(null);
-  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const zoomRef = useRef<ZoomBinding | null>(null);
+  // Pending canvas repaint, so a redraw can drop one scheduled for the previous scene
+  const frameRef = useRef(0);
+  // Layout extent of the canvas drawing, which has no DOM to measure
+  const canvasExtentRef = useRef<{ x: number; y: number; width: number; height: number } | null>(null);
   const selectedRef = useRef<string | null>(null);
+  // Applies a selection to the current drawing; replaced on every draw
+  const selectRef = useRef<((address: string | null) => void) | null>(null);
+  // Addresses drawn last time, to tell which nodes are new
+  const drawnAddrsRef = useRef<Set<string>>(new Set());
+  // Centers a token in the current drawing; replaced on every draw. Returns false if it is not drawn.
+  const flyToRef = useRef<((address: string) => boolean) | null>(null);
+  // Focus target that was not drawn yet; the next draw that includes it flies there
+  const pendingFocusRef = useRef<string | null>(null);
+  // Double-click collapse state; survives redraws as new batches stream in
+  const [overrides, setOverrides] = useState<Map<string, boolean>>(() => new Map());
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(() => new Set());
+  const focusAddress = focusRequest?.address ?? null;
+
+  const data = useMemo(
+    () =>
+      toHNode(root, liquidity, changes, {
+        maxDepth,
+        othersBelowTvl,
+        overrides,
+        expandedGroups,
+        forcedOpen: focusAddress ? ancestorsOf(root, focusAddress) : new Set(),
+      }),
+    [root, liquidity, changes, maxDepth, othersBelowTvl, overrides, expandedGroups, focusAddress],
+  );
+  const useCanvas = renderer === "canvas" || (renderer === "auto" && countNodes(data) > CANVAS_NODE_THRESHOLD);
+
+  // Double-click a node to collapse or expand it, or an "others" node to unfold its group
+  const toggleNode = useCallback((nd: HNode) => {
+    const { othersOf, address, collapsed, childCount } = nd;
+    if (othersOf) {
+      setExpandedGroups((prev) => new Set(prev).add(othersOf));
+      return;
+    }
+    if (childCount === 0) return;
+    setOverrides((prev) => new Map(prev).set(address, !collapsed));
+    if (!collapsed) {
+      // Collapsing also regroups its small children for the next expansion
+      setExpandedGroups((prev) => {
+        if (!prev.has(address)) return prev;
+        const next = new Set(prev);
+        next.delete(address);
+        return next;
+      });
+    }
+  }, []);
 
   const draw = useCallback(() => {
     if (!svgRef.current) return;
 
     const svg = d3.select(svgRef.current);
-    svg.selectAll("*").remove();
-    selectedRef.current = null;
-
-    const data = toHNode(root);
-    const hierarchy = d3.hierarchy(data);
-    const leafCount = hierarchy.leaves().length;
 
-    // Radial tree layout — spreads children around the center
-    const radius = Math.min(width, height) / 2 - 120;
-    const treeLayout = d3
-      .tree<HNode>()
-      .size([2 * Math.PI, Math.max(radius, 150)])
-      .separation((a, b) => (a.parent === b.parent ? 1 : 2) / a.depth);
-
-    const treeRoot = treeLayout(hierarchy);
+    const treeRoot = layoutTree(data, width, height);
     const nodes = treeRoot.descendants();
     const links = treeRoot.links();
+    const leafCount = treeRoot.leaves().length;
 
     // Build a lookup from address to hierarchy node (for path tracing)
-    const nodeByAddr = new Map<string, d3.HierarchyPointNode<HNode>>();
+    const nodeByAddr = new Map<string, Point>();
     for (const n of nodes) nodeByAddr.set(n.data.address, n);
 
-    // Root group that gets zoomed/panned
-    const g = svg.append("g");
+    const symbolOf = symbolLookup(nodes);
 
-    // Initial transform — center the tree
-    const initialTransform = d3.zoomIdentity.translate(width / 2, height / 2);
+    const previouslyDrawn = drawnAddrsRef.current;
+    drawnAddrsRef.current = new Set(nodeByAddr.keys());
+    const isNew = (d: Point) => animateNew && previouslyDrawn.size > 0 && !previouslyDrawn.has(d.data.address);
 
-    // Zoom behavior
-    const zoom = d3
-      .zoom<SVGSVGElement, unknown>()
-      .scaleExtent([0.3, 5])
-      .on("zoom", (event) => {
-        g.attr("transform", event.transform);
-      });
+    // Existing nodes glide to their new layout position; the first draw places them directly
+    const LAYOUT_DUR = previouslyDrawn.size > 0 ? 400 : 0;
+
+    const linkWidth = (d: Link) => edgeWidth(edgeValue(d.target, edgeMetric));
 
-    zoomRef.current = zoom;
-    svg.call(zoom).call(zoom.transform, initialTransform);
+    // ── Layers ─────────────────────────────────────────────────
+
+    // Created on the first draw and updated in place afterwards, so zoom, pan
+    // and the highlighted path survive streaming batches
+    const g = svg
+      .selectAll<SVGGElement, null>("g.viewport")
+      .data([null])
+      .join("g")
+      .attr("class", "viewport");
+    const linkLayer = g.selectAll<SVGGElement, null>("g.links").data([null]).join("g").attr("class", "links");
+    const edgeLabelLayer = g
+      .selectAll<SVGGElement, null>("g.edge-labels")
+      .data([null])
+      .join("g")
+      .attr("class", "edge-labels");
+    const nodeLayer = g.selectAll<SVGGElement, null>("g.nodes").data([null]).join("g").attr("class", "nodes");
+
+    const applyTransform = (transform: d3.ZoomTransform) => g.attr("transform", transform.toString());
+    const zoom = bindZoom(zoomRef, svg.node()!, applyTransform, width, height);
 
     // ── Edges ──────────────────────────────────────────────────
 
-    const linkSelection = g.append("g")
+    const linkKey = (d: Link) => d.target.data.address;
+
+    const linkPath = (d: Link) => {
+      const [sx, sy] = radialPoint(d.source.x, d.source.y);
+      const [tx, ty] = radialPoint(d.target.x, d.target.y);
+      const [cx, cy] = radialPoint(d.target.x, d.source.y);
+      return `M${sx},${sy}Q${cx},${cy} ${tx},${ty}`;
+    };
+
+    const linkSelection = linkLayer
       .attr("fill", "none")
-      .selectAll("path")
-      .data(links)
-      .join("path")
-      .attr("d", (d) => {
-        const sourceAngle = d.source.x;
-        const sourceRadius = d.source.y;
-        const targetAngle = d.target.x;
-        const targetRadius = d.target.y;
-        const [sx, sy] = radialPoint(sourceAngle, sourceRadius);
-        const [tx, ty] = radialPoint(targetAngle, targetRadius);
-        const [cx, cy] = radialPoint(targetAngle, sourceRadius);
-        return `M${sx},${sy}Q${cx},${cy} ${tx},${ty}`;
-      })
+      .selectAll<SVGPathElement, Link>("path")
+      .data(links, linkKey)
+      .join((enter) => enter.append("path").attr("d", linkPath))
       .attr("stroke", (d) => getColor(d.target.data.currency))
       .attr("stroke-opacity", 0.35)
-      .attr("stroke-width", (d) => {
-        const tvl = d.target.data.totalSupply;
-        if (tvl >= 1_000_000) return 2.5;
-        if (tvl >= 1_000) return 1.8;
-        return 1;
-      });
+      .attr("stroke-width", linkWidth);
+    if (LAYOUT_DUR > 0) linkSelection.transition("layout").duration(LAYOUT_DUR).attr("d", linkPath);
+    else linkSelection.attr("d", linkPath);
 
     // Edge TVL labels — placed at midpoint of each link
-    const edgeLabelSelection = g.append("g")
-      .selectAll("text")
-      .data(links)
-      .join("text");
-
-    edgeLabelSelection.each(function (d) {
-      const sourceAngle = d.source.x;
-      const sourceRadius = d.source.y;
-      const targetAngle = d.target.x;
-      const targetRadius = d.target.y;
-      const midAngle = (sourceAngle + targetAngle) / 2;
-      const midRadius = (sourceRadius + targetRadius) / 2;
-      const [mx, my] = radialPoint(midAngle, midRadius);
-
-      const tvl = d.target.data.totalSupply;
-      if (tvl <= 0) return;
-
-      const showLabel = leafCount < 60 || tvl >= 1_000;
-
-      if (showLabel) {
-        d3.select(this)
-          .attr("x", mx)
-          .attr("y", my)
+    const labelPoint = (d: Link) => radialPoint((d.source.x + d.target.x) / 2, (d.source.y + d.target.y) / 2);
+
+    const edgeLabelSelection = edgeLabelLayer
+      .selectAll<SVGTextElement, Link>("text")
+      .data(links, linkKey)
+      .join((enter) =>
+        enter
+          .append("text")
+          .attr("x", (d) => labelPoint(d)[0])
+          .attr("y", (d) => labelPoint(d)[1])
           .attr("text-anchor", "middle")
           .attr("dominant-baseline", "middle")
-          .attr("fill", getColor(d.target.data.currency))
-          .attr("fill-opacity", 0.6)
           .attr("font-size", "8px")
-          .attr("font-weight", "500")
-          .text(formatTvl(tvl));
-      }
-    });
+          .attr("font-weight", "500"),
+      )
+      .attr("fill", (d) => (d.target.data.change ? changeColor(d.target.data.change) : getColor(d.target.data.currency)))
+      .attr("fill-opacity", (d) => (d.target.data.change ? 0.9 : 0.6))
+      .text((d) => {
+        if (d.target.data.change) return changeNote(d.target.data.change, symbolOf);
+        const tvl = edgeValue(d.target, edgeMetric);
+        return tvl > 0 && (leafCount < 60 || tvl >= 1_000) ? formatEdgeValue(d.target, edgeMetric, tvl) : "";
+      });
+    if (LAYOUT_DUR > 0) {
+      edgeLabelSelection
+        .transition("layout")
+        .duration(LAYOUT_DUR)
+        .attr("x", (d) => labelPoint(d)[0])
+        .attr("y", (d) => labelPoint(d)[1]);
+    }
 
     // ── Nodes ──────────────────────────────────────────────────
 
-    const nodeSelection = g
-      .append("g")
-      .selectAll<SVGGElement, d3.HierarchyPointNode<HNode>>("g")
-      .data(nodes)
-      .join("g")
-      .attr("transform", (d) => {
-        if (d.depth === 0) return "translate(0,0)";
-        const [x, y] = radialPoint(d.x, d.y);
-        return `translate(${x},${y})`;
+    const nodeTransform = (d: Point) => {
+      if (d.depth === 0) return "translate(0,0)";
+      const [x, y] = radialPoint(d.x, d.y);
+      return `translate(${x},${y})`;
+    };
+
+    // Node symbol labels — radially oriented, outside the circle
+    const labelTransform = (d: Point) => {
+      if (d.depth === 0) return "translate(0,-24)";
+      const angle = d.x;
+      const offset = nodeRadius(d.depth, d.data.tvl) + 5;
+      const rotateDeg = (angle * 180) / Math.PI - 90;
+      const flip = angle > Math.PI;
+      return `rotate(${flip ? rotateDeg + 180 : rotateDeg})translate(${flip ? -offset : offset},0)`;
+    };
+
+    const nodeSelection = nodeLayer
+      .selectAll<SVGGElement, Point>("g.node")
+      .data(nodes, (d) => d.data.address)
+      .join((enter) => {
+        const entered = enter.append("g").attr("class", "node").attr("transform", nodeTransform);
+        entered.append("circle").attr("class", "node-circle").style("cursor", "pointer");
+        entered.append("text").attr("class", "node-label").attr("dy", "0.35em").attr("transform", labelTransform);
+        return entered;
       });
+    if (LAYOUT_DUR > 0) nodeSelection.transition("layout").duration(LAYOUT_DUR).attr("transform", nodeTransform);
 
-    // Node circles
+    // `select` hands each group's new datum down to its circle and label
     nodeSelection
-      .append("circle")
-      .attr("r", (d) => {
-        if (d.depth === 0) return 16;
-        const tvl = d.data.totalSupply;
-        if (tvl >= 1_000_000) return 8;
-        if (tvl >= 1_000) return 6;
-        return 4;
-      })
-      .attr("fill", (d) => getColor(d.data.currency))
+      .select<SVGCircleElement>("circle.node-circle")
+      .attr("r", (d) => nodeRadius(d.depth, d.data.tvl))
+      .attr("fill", (d) => (d.data.othersOf ? "#334155" : getColor(d.data.currency)))
       .attr("fill-opacity", 0.9)
-      .attr("stroke", (d) => getColor(d.data.currency))
-      .attr("stroke-width", (d) => (d.depth === 0 ? 3 : 1.5))
-      .attr("stroke-opacity", 1)
-      .style("cursor", "pointer");
+      .attr("stroke", (d) => (d.data.othersOf ? "#64748b" : getColor(d.data.currency)))
+      .attr("stroke-width", (d) => (d.depth === 0 ? 3 : d.data.collapsed ? 2.5 : 1.5))
+      .attr("stroke-dasharray", (d) => (d.data.collapsed ? "2,2" : null))
+      .attr("stroke-opacity", 1);
 
-    // Node symbol labels — radially oriented, outside the circle
-    nodeSelection
-      .append("text")
-      .attr("dy", "0.35em")
-      .attr("text-anchor", (d) => {
-        if (d.depth === 0) return "middle";
-        const angle = d.x;
-        return angle > Math.PI ? "end" : "start";
-      })
-      .attr("transform", (d) => {
-        if (d.depth === 0) return "translate(0,-24)";
-        const angle = d.x;
-        const r = d.data.totalSupply >= 1_000_000 ? 8 : d.data.totalSupply >= 1_000 ? 6 : 4;
-        const offset = r + 5;
-        const rotateDeg = ((angle * 180) / Math.PI - 90);
-        const flip = angle > Math.PI;
-        return `rotate(${flip ? rotateDeg + 180 : rotateDeg})translate(${flip ? -offset : offset},0)`;
-      })
+    const labels = nodeSelection
+      .select<SVGTextElement>("text.node-label")
+      .attr("text-anchor", (d) => (d.depth === 0 ? "middle" : d.x > Math.PI ? "end" : "start"))
       .attr("fill", "#e2e8f0")
       .attr("font-size", (d) => (d.depth === 0 ? "14px" : "10px"))
       .attr("font-weight", (d) => (d.depth === 0 ? "700" : "500"))
-      .text((d) => d.data.symbol);
+      .text((d) => revealHidden(d.data.symbol));
+    if (LAYOUT_DUR > 0) labels.transition("layout").duration(LAYOUT_DUR).attr("transform", labelTransform);
+
+    // Warning badge on tokens with suspicious names or symbols
+    nodeSelection
+      .selectAll<SVGTextElement, Point>("text.warning-badge")
+      .data((d) => (d.data.warnings.length > 0 ? [d] : []))
+      .join("text")
+      .attr("class", "warning-badge")
+      .attr("x", (d) => nodeRadius(d.depth, d.data.tvl) - 1)
+      .attr("y", (d) => -nodeRadius(d.depth, d.data.tvl) - 1)
+      .attr("text-anchor", "middle")
+      .attr("font-size", "10px")
+      .attr("fill", "#fbbf24")
+      .style("pointer-events", "none")
+      .text("\u26A0");
+
+    // Ring around tokens that changed since the comparison baseline
+    nodeSelection
+      .selectAll<SVGCircleElement, Point>("circle.change-ring")
+      .data((d) => (d.data.change ? [d] : []))
+      .join("circle")
+      .attr("class", "change-ring")
+      .attr("r", (d) => nodeRadius(d.depth, d.data.tvl) + 3)
+      .attr("fill", "none")
+      .attr("stroke", (d) => changeColor(d.data.change!))
+      .attr("stroke-width", 2)
+      .attr("stroke-dasharray", (d) => (d.data.change!.kind === "removed" ? "3,2" : null))
+      .style("pointer-events", "none");
+
+    // "+N descendants" badge with the folded value, below collapsed nodes
+    nodeSelection
+      .selectAll<SVGTextElement, Point>("text.collapsed-badge")
+      .data((d) => (d.data.collapsed && d.data.hiddenCount > 0 && !d.data.othersOf ? [d] : []))
+      .join("text")
+      .attr("class", "collapsed-badge")
+      .attr("y", (d) => nodeRadius(d.depth, d.data.tvl) + 9)
+      .attr("text-anchor", "middle")
+      .attr("font-size", "8px")
+      .attr("fill", "#94a3b8")
+      .style("pointer-events", "none")
+      .text((d) => `+${d.data.hiddenCount.toLocaleString()} \u00b7 ${formatTvl(d.data.hiddenTvl)}`);
 
     // Root TVL label
     nodeSelection
-      .filter((d) => d.depth === 0 && d.data.totalSupply > 0)
-      .append("text")
+      .selectAll<SVGTextElement, Point>("text.root-tvl")
+      .data((d) => (d.depth === 0 && d.data.tvl > 0 ? [d] : []))
+      .join("text")
+      .attr("class", "root-tvl")
       .attr("dy", "0.35em")
       .attr("y", 24)
       .attr("text-anchor", "middle")
       .attr("fill", "#64748b")
       .attr("font-size", "10px")
-      .text((d) => formatTvl(d.data.totalSupply));
+      .text((d) => formatTvl(d.data.tvl));
 
-    // ── Path highlighting on click ────────────────────────────
+    // ── Enter animation for newly streamed nodes ──────────────
+
+    if (animateNew) {
+      const entering = nodeSelection.filter(isNew);
+
+      entering
+        .select("circle.node-circle")
+        .attr("r", 0)
+        .transition("enter")
+        .duration(ENTER_DUR)
+        .ease(d3.easeBackOut)
+        .attr("r", (d) => nodeRadius(d.depth, d.data.tvl));
+
+      entering
+        .append("circle")
+        .attr("r", (d) => nodeRadius(d.depth, d.data.tvl))
+        .attr("fill", "none")
+        .attr("stroke", (d) => getColor(d.data.currency))
+        .attr("stroke-width", 2)
+        .style("pointer-events", "none")
+        .transition("enter")
+        .duration(ENTER_DUR * 1.5)
+        .attr("r", 28)
+        .attr("stroke-opacity", 0)
+        .remove();
 
-    function applySelection(pathAddrs: Set<string> | null) {
-      const DUR = 350;
+      linkSelection
+        .filter((d) => isNew(d.target))
+        .attr("stroke-opacity", 0)
+        .transition("enter")
+        .duration(ENTER_DUR)
+        .attr("stroke-opacity", 0.35);
+    }
 
+    // ── Path highlighting on click ────────────────────────────
+
+    function applySelection(pathAddrs: Set<string> | null, DUR = 350) {
       if (!pathAddrs) {
         // Reset — show everything
         nodeSelection
@@ -253,12 +980,7 @@ export default function TreeGraph({ root, width, height }: TreeGraphProps) {
         linkSelection
           .transition().duration(DUR)
           .style("opacity", 1)
-          .attr("stroke-width", (d) => {
-            const tvl = d.target.data.totalSupply;
-            if (tvl >= 1_000_000) return 2.5;
-            if (tvl >= 1_000) return 1.8;
-            return 1;
-          });
+          .attr("stroke-width", linkWidth);
 
         edgeLabelSelection
           .transition().duration(DUR)
@@ -280,10 +1002,7 @@ export default function TreeGraph({ root, width, height }: TreeGraphProps) {
         .attr("stroke-width", (d) => {
           const onPath = pathAddrs.has(d.source.data.address) && pathAddrs.has(d.target.data.address);
           if (onPath) return 3;
-          const tvl = d.target.data.totalSupply;
-          if (tvl >= 1_000_000) return 2.5;
-          if (tvl >= 1_000) return 1.8;
-          return 1;
+          return linkWidth(d);
         });
 
       edgeLabelSelection
@@ -298,76 +1017,75 @@ export default function TreeGraph({ root, width, height }: TreeGraphProps) {
 
       const addr = d.data.address;
 
-      // Clicking the same node again, or the root → deselect
-      if (selectedRef.current === addr || d.depth === 0) {
-        selectedRef.current = null;
-        applySelection(null);
+      if (onNodeClick) {
+        if (!d.data.othersOf) onNodeClick(addr);
         return;
       }
 
-      selectedRef.current = addr;
+      // Clicking the same node again, or the root → deselect
+      const next = selectedRef.current === addr || d.depth === 0 ? null : addr;
+      select(next);
+      onSelectionChange?.(next);
+    });
 
-      // Walk ancestors to build the path set
-      const pathAddrs = new Set<string>();
-      let cur: d3.HierarchyPointNode<HNode> | null = d;
-      while (cur) {
-        pathAddrs.add(cur.data.address);
-        cur = cur.parent;
+    // Highlight the selected token's ancestor path (a highlighted route takes precedence)
+    function select(address: string | null, duration?: number) {
+      const node = address ? nodeByAddr.get(address) : undefined;
+      selectedRef.current = node ? node.data.address : null;
+      if (highlightPath && highlightPath.length > 0) return;
+      if (!node) {
+        applySelection(null, duration);
+        return;
       }
 
-      applySelection(pathAddrs);
+      applySelection(pathTo(node), duration);
+    }
+    selectRef.current = select;
+
+    // Animate the zoom so the token sits at the center, zooming in if needed
+    function flyTo(address: string, duration = 750): boolean {
+      const node = nodeByAddr.get(address);
+      if (!node) return false;
+      const target = centerOn(node, d3.zoomTransform(svg.node()!), width, height);
+      d3.select<Element, unknown>(svg.node()!)
+        .transition()
+        .duration(duration)
+        .ease(d3.easeCubicInOut)
+        .call(zoom.transform, target);
+      return true;
+    }
+    flyToRef.current = flyTo;
+
+    if (pendingFocusRef.current && flyTo(pendingFocusRef.current)) pendingFocusRef.current = null;
+
+    if (highlightPath && highlightPath.length > 0) {
+      applySelection(new Set(highlightPath));
+    } else if (selectedRef.current) {
+      // Restore the selection across redraws without animating
+      select(selectedRef.current, 0);
+    }
+
+    nodeSelection.on("dblclick", (event, d) => {
+      event.stopPropagation();
+      toggleNode(d.data);
     });
 
     // Click SVG background to deselect
     svg.on("click", () => {
       if (selectedRef.current) {
-        selectedRef.current = null;
-        applySelection(null);
+        select(null);
+        onSelectionChange?.(null);
       }
     });
 
     // ── Tooltip on hover ───────────────────────────────────────
 
-    let tooltipDiv = d3.select<HTMLDivElement, unknown>("#tree-tooltip");
-    if (tooltipDiv.empty()) {
-      tooltipDiv = d3
-        .select("body")
-        .append("div")
-        .attr("id", "tree-tooltip")
-        .style("position", "fixed")
-        .style("pointer-events", "none")
-        .style("background", "#1e1e2e")
-        .style("border", "1px solid #334155")
-        .style("border-radius", "8px")
-        .style("padding", "10px 14px")
-        .style("font-size", "13px")
-        .style("color", "#e2e8f0")
-        .style("z-index", "1000")
-        .style("min-width", "220px")
-        .style("box-shadow", "0 4px 12px rgba(0,0,0,0.5)")
-        .style("display", "none");
-    }
+    const tooltipDiv = getTooltip();
 
     nodeSelection
       .on("mouseenter", (_event, d) => {
-        const nd = d.data;
-        tooltipDiv
-          .style("display", "block")
-          .html(
-            `<div style="font-weight:700;font-size:15px;margin-bottom:2px">${nd.name}</div>` +
-              `<div style="color:#94a3b8;font-size:12px;margin-bottom:6px">${nd.symbol}</div>` +
-              `<div style="display:flex;justify-content:space-between;margin-bottom:3px">` +
-              `<span style="color:#64748b">Currency</span>` +
-              `<span style="color:${getColor(nd.currency)};font-weight:600">${nd.currency}</span></div>` +
-              `<div style="display:flex;justify-content:space-between;margin-bottom:3px">` +
-              `<span style="color:#64748b">TVL (PathUSD)</span>` +
-              `<span style="font-weight:600">${formatTvl(nd.totalSupply)}</span></div>` +
-              (nd.childCount > 0
-                ? `<div style="display:flex;justify-content:space-between;margin-bottom:3px">` +
-                  `<span style="color:#64748b">Children</span><span>${nd.childCount}</span></div>`
-                : "") +
-              `<div style="color:#475569;font-size:10px;margin-top:6px;font-family:monospace;word-break:break-all">${nd.address}</div>`
-          );
+        tooltipDiv.style("display", "block");
+        renderTooltip(tooltipDiv, d.data, symbolOf);
       })
       .on("mousemove", (event) => {
         tooltipDiv
@@ -377,21 +1095,159 @@ export default function TreeGraph({ root, width, height }: TreeGraphProps) {
       .on("mouseleave", () => {
         tooltipDiv.style("display", "none");
       });
-  }, [root, width, height]);
+  }, [data, width, height, animateNew, edgeMetric, highlightPath, onNodeClick, onSelectionChange, toggleNode]);
+
+  // Same interactions as the SVG drawing, painted on a canvas and hit-tested with a quadtree
+  const drawCanvas = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    cancelAnimationFrame(frameRef.current);
+
+    const treeRoot = layoutTree(data, width, height);
+    const nodes = treeRoot.descendants();
+    const nodeByAddr = new Map<string, Point>();
+    for (const n of nodes) nodeByAddr.set(n.data.address, n);
+    const symbolOf = symbolLookup(nodes);
+    const previouslyDrawn = drawnAddrsRef.current;
+    drawnAddrsRef.current = new Set(nodeByAddr.keys());
+
+    const scene: CanvasScene = {
+      nodes,
+      links: treeRoot.links(),
+      byTvl: [...nodes].sort((a, b) => b.data.tvl - a.data.tvl),
+      pos: new Map(nodes.map((d) => [d, nodePoint(d)])),
+      edgeMetric,
+      symbolOf,
+      entering: animateNew && previouslyDrawn.size > 0 ? nodes.filter((d) => !previouslyDrawn.has(d.data.address)) : [],
+      enterStart: performance.now(),
+    };
+    const quadtree = d3
+      .quadtree<Point>()
+      .x((d) => scene.pos.get(d)![0])
+      .y((d) => scene.pos.get(d)![1])
+      .addAll(nodes);
+    // Node extent plus room for labels, for "fit"
+    const [x0, x1] = d3.extent(nodes, (d) => scene.pos.get(d)![0]) as [number, number];
+    const [y0, y1] = d3.extent(nodes, (d) => scene.pos.get(d)![1]) as [number, number];
+    canvasExtentRef.current = { x: x0 - 60, y: y0 - 60, width: x1 - x0 + 120, height: y1 - y0 + 120 };
 
+    let highlighted: Set<string> | null = null;
+    const paint = () => {
+      frameRef.current = 0;
+      if (paintCanvas(ctx, scene, d3.zoomTransform(canvas), width, height, highlighted)) requestPaint();
+    };
+    const requestPaint = () => {
+      if (!frameRef.current) frameRef.current = requestAnimationFrame(paint);
+    };
+
+    const zoom = bindZoom(zoomRef, canvas, requestPaint, width, height);
+
+    // Node under the pointer, with a few pixels of slack so small nodes stay easy to hit
+    function nodeAt(event: MouseEvent): Point | undefined {
+      const t = d3.zoomTransform(canvas!);
+      const [x, y] = t.invert(d3.pointer(event, canvas));
+      const d = quadtree.find(x, y, 16 + 4 / t.k);
+      if (!d || (highlighted && !highlighted.has(d.data.address))) return undefined;
+      const [nx, ny] = scene.pos.get(d)!;
+      return Math.hypot(nx - x, ny - y) <= nodeRadius(d.depth, d.data.tvl) + 4 / t.k ? d : undefined;
+    }
+
+    // Highlight the selected token's ancestor path (a highlighted route takes precedence)
+    function select(address: string | null) {
+      const node = address ? nodeByAddr.get(address) : undefined;
+      selectedRef.current = node ? node.data.address : null;
+      if (highlightPath && highlightPath.length > 0) return;
+      highlighted = node ? pathTo(node) : null;
+      requestPaint();
+    }
+    selectRef.current = select;
+
+    function flyTo(address: string, duration = 750): boolean {
+      const node = nodeByAddr.get(address);
+      if (!node) return false;
+      const target = centerOn(node, d3.zoomTransform(canvas!), width, height);
+      d3.select<Element, unknown>(canvas!)
+        .transition()
+        .duration(duration)
+        .ease(d3.easeCubicInOut)
+        .call(zoom.transform, target);
+      return true;
+    }
+    flyToRef.current = flyTo;
+
+    if (highlightPath && highlightPath.length > 0) highlighted = new Set(highlightPath);
+    else select(selectedRef.current);
+    if (pendingFocusRef.current && flyTo(pendingFocusRef.current)) pendingFocusRef.current = null;
+
+    const tooltipDiv = getTooltip();
+    let hovered: Point | undefined;
+
+    d3.select(canvas)
+      .on("mousemove", (event: MouseEvent) => {
+        const d = nodeAt(event);
+        if (d !== hovered) {
+          hovered = d;
+          canvas.style.cursor = d ? "pointer" : "";
+          tooltipDiv.style("display", d ? "block" : "none");
+          if (d) renderTooltip(tooltipDiv, d.data, symbolOf);
+        }
+        if (d) tooltipDiv.style("left", event.clientX + 14 + "px").style("top", event.clientY - 10 + "px");
+      })
+      .on("mouseleave", () => {
+        hovered = undefined;
+        tooltipDiv.style("display", "none");
+      })
+      .on("click", (event: MouseEvent) => {
+        const d = nodeAt(event);
+        if (d && onNodeClick) {
+          if (!d.data.othersOf) onNodeClick(d.data.address);
+          return;
+        }
+        // Clicking the same node again, the root or the background → deselect
+        const next = !d || selectedRef.current === d.data.address || d.depth === 0 ? null : d.data.address;
+        if (next === selectedRef.current) return;
+        select(next);
+        onSelectionChange?.(next);
+      })
+      .on("dblclick", (event: MouseEvent) => {
+        const d = nodeAt(event);
+        if (d) toggleNode(d.data);
+      });
+
+    paint();
+  }, [data, width, height, animateNew, edgeMetric, highlightPath, onNodeClick, onSelectionChange, toggleNode]);
+
+  // Controlled selection: picked up by the next draw, or applied to the current one
   useEffect(() => {
-    draw();
-  }, [draw]);
+    if (selectedAddress === undefined || selectedAddress === selectedRef.current) return;
+    selectedRef.current = selectedAddress;
+    selectRef.current?.(selectedAddress);
+  }, [selectedAddress]);
+
+  useEffect(() => {
+    if (!focusRequest) return;
+    // Not drawn yet (streaming, or under a collapsed ancestor): the next draw flies there
+    pendingFocusRef.current = flyToRef.current?.(focusRequest.address) ? null : focusRequest.address;
+  }, [focusRequest]);
+
+  useEffect(() => {
+    if (useCanvas) drawCanvas();
+    else draw();
+  }, [useCanvas, draw, drawCanvas]);
+
+  useEffect(() => () => cancelAnimationFrame(frameRef.current), []);
 
   // Zoom controls
   function handleZoom(direction: "in" | "out" | "fit") {
-    if (!svgRef.current || !zoomRef.current) return;
-    const svg = d3.select(svgRef.current);
-    const zoom = zoomRef.current;
+    if (!zoomRef.current) return;
+    const { el, zoom } = zoomRef.current;
+    const svg = d3.select(el);
 
     if (direction === "fit") {
-      const g = svg.select("g");
-      const bounds = (g.node() as SVGGElement)?.getBBox();
+      const bounds = useCanvas
+        ? canvasExtentRef.current
+        : (svg.select<SVGGElement>("g.viewport").node()?.getBBox() ?? null);
       if (!bounds) return;
       const padding = 60;
       const scale = Math.min(
@@ -447,12 +1303,21 @@ export default function TreeGraph({ root, width, height }: TreeGraphProps) {
         ))}
       </div>
 
-      <svg
-        ref={svgRef}
-        width={width}
-        height={height}
-        style={{ background: "#0f172a", borderRadius: "8px" }}
-      />
+      {useCanvas ? (
+        <canvas
+          ref={canvasRef}
+          width={Math.round(width * devicePixelRatio)}
+          height={Math.round(height * devicePixelRatio)}
+          style={{ width, height, display: "block", background: "#0f172a", borderRadius: "8px" }}
+        />
+      ) : (
+        <svg
+          ref={svgRef}
+          width={width}
+          height={height}
+          style={{ background: "#0f172a", borderRadius: "8px" }}
+        />
+      )}
     </div>
   );
 }
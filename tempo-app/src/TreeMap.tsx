@@ -1,11 +1,18 @@
-import { useEffect, useRef, useState, useCallback } from "react";
+import { useEffect, useRef, useState, useCallback, useMemo } from "react";
 import * as d3 from "d3";
 import type { TokenNode } from "./fetchTokens";
+import { formatAmount } from "./format";
+import { inspectToken, revealHidden, type SafetyWarning } from "./tokenSafety";
+import { toUnits } from "./units";
 
 interface TreeMapProps {
   root: TokenNode;
   width: number;
   height: number;
+  /** Token to zoom to on mount: itself if it has children, otherwise its parent group. */
+  focusAddress?: string | null;
+  /** Reports the zoomed group whenever the user drills in or out. */
+  onFocusChange?: (address: string | null) => void;
 }
 
 interface D3Node {
@@ -14,7 +21,9 @@ interface D3Node {
   address: string;
   currency: string;
   totalSupply: number;
+  tvl: number;
   childCount: number;
+  warnings: SafetyWarning[];
   children?: D3Node[];
 }
 
@@ -24,8 +33,10 @@ function tokenToD3(node: TokenNode): D3Node {
     symbol: node.symbol,
     address: node.address,
     currency: node.currency,
-    totalSupply: node.totalSupply,
+    totalSupply: toUnits(node.totalSupply, node.decimals),
+    tvl: node.tvl,
     childCount: node.children.length,
+    warnings: inspectToken(node),
     children: node.children.length > 0 ? node.children.map(tokenToD3) : undefined,
   };
 }
@@ -52,13 +63,35 @@ function getCurrencyColor(currency: string): string {
   return CURRENCY_COLORS[currency] || "#94a3b8";
 }
 
-function formatSupply(n: number): string {
-  if (n >= 1_000_000_000) return `${(n / 1_000_000_000).toFixed(1)}B`;
-  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
-  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
-  if (n >= 1) return n.toFixed(0);
-  if (n > 0) return n.toFixed(2);
-  return "0";
+/** Addresses of the groups to zoom through (root excluded) so that `address` is in view. */
+function initialZoomPath(root: TokenNode, address: string | null): string[] {
+  if (!address) return [];
+  const target = address.toLowerCase();
+  const path: TokenNode[] = [];
+  function walk(node: TokenNode): boolean {
+    path.push(node);
+    if (node.address.toLowerCase() === target) return true;
+    for (const c of node.children) if (walk(c)) return true;
+    path.pop();
+    return false;
+  }
+  if (!walk(root)) return [];
+  const groups = path.slice(1);
+  if (groups.length > 0 && groups[groups.length - 1].children.length === 0) groups.pop();
+  return groups.map((n) => n.address);
+}
+
+/** Resolve a zoom path within the latest data; a path broken by refiltering resolves to the top level. */
+function resolveZoom(fullData: D3Node, path: string[]): D3Node[] {
+  const nodes: D3Node[] = [];
+  let current = fullData;
+  for (const addr of path) {
+    const found = current.children?.find((c) => c.address === addr);
+    if (!found) return [];
+    nodes.push(found);
+    current = found;
+  }
+  return nodes;
 }
 
 function renderToSvg(
@@ -80,8 +113,8 @@ function renderToSvg(
     .hierarchy(data)
     .sum((d) => {
       if (d.children) return 0;
-      // Use totalSupply for sizing, with a small floor so zero-supply tokens are still visible
-      return Math.max(d.totalSupply, 0.01);
+      // Use PathUSD TVL for sizing, with a small floor so zero-supply tokens are still visible
+      return Math.max(d.tvl, 0.01);
     })
     .sort((a, b) => (b.value ?? 0) - (a.value ?? 0));
 
@@ -148,9 +181,10 @@ function renderToSvg(
     .text((d) => {
       const w = d.x1 - d.x0;
       if (w < 35) return "";
+      const symbol = (d.data.warnings.length > 0 ? "\u26A0 " : "") + revealHidden(d.data.symbol);
       return w < 100
-        ? d.data.symbol
-        : `${d.data.symbol} (${d.data.childCount}) · ${formatSupply(d.value ?? 0)}`;
+        ? symbol
+        : `${symbol} (${d.data.childCount}) · ${formatAmount(d.value ?? 0)}`;
     });
 
   // Leaf labels
@@ -171,7 +205,7 @@ function renderToSvg(
     .text((d) => {
       const w = d.x1 - d.x0;
       if (w < 25) return "";
-      return d.data.symbol;
+      return (d.data.warnings.length > 0 ? "\u26A0 " : "") + revealHidden(d.data.symbol);
     });
 
   // Supply label on larger leaves
@@ -188,19 +222,30 @@ function renderToSvg(
       if (w > 55 && h > 28) return "9px";
       return "0px";
     })
-    .text((d) => formatSupply(d.data.totalSupply));
+    .text((d) => formatAmount(d.data.tvl));
 }
 
-export default function TreeMap({ root, width, height }: TreeMapProps) {
+export default function TreeMap({ root, width, height, focusAddress = null, onFocusChange }: TreeMapProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const [tooltip, setTooltip] = useState<{ x: number; y: number; node: D3Node } | null>(null);
-  const [zoomPath, setZoomPath] = useState<D3Node[]>([]);
+  const [zoomPath, setZoomPath] = useState<string[]>(() => initialZoomPath(root, focusAddress));
+
+  const fullData = useMemo(() => tokenToD3(root), [root]);
+  const zoomNodes = useMemo(() => resolveZoom(fullData, zoomPath), [fullData, zoomPath]);
+
+  const changeZoom = useCallback(
+    (path: string[]) => {
+      setZoomPath(path);
+      onFocusChange?.(path.length > 0 ? path[path.length - 1] : null);
+    },
+    [onFocusChange]
+  );
 
   const draw = useCallback(
     (data: D3Node) => {
       if (!svgRef.current) return;
       renderToSvg(svgRef.current, data, width, height, {
-        onZoom: (node) => setZoomPath((prev) => [...prev, node]),
+        onZoom: (node) => changeZoom([...zoomNodes.map((n) => n.address), node.address]),
         onTooltipEnter: (e, node) => {
           const rect = svgRef.current!.getBoundingClientRect();
           setTooltip({ x: e.clientX - rect.left, y: e.clientY - rect.top, node });
@@ -212,35 +257,16 @@ export default function TreeMap({ root, width, height }: TreeMapProps) {
         onTooltipLeave: () => setTooltip(null),
       });
     },
-    [width, height]
-  );
-
-  // Navigate to the zoomed subtree within the latest root
-  const resolveZoom = useCallback(
-    (fullData: D3Node, path: D3Node[]): D3Node => {
-      let current = fullData;
-      for (const pathNode of path) {
-        const found = current.children?.find((c) => c.address === pathNode.address);
-        if (!found) return fullData; // path broken, reset
-        current = found;
-      }
-      return current;
-    },
-    []
+    [width, height, changeZoom, zoomNodes]
   );
 
+  // Draw the zoomed subtree within the latest root
   useEffect(() => {
-    const fullData = tokenToD3(root);
-    const target = resolveZoom(fullData, zoomPath);
-    if (target === fullData && zoomPath.length > 0) {
-      setZoomPath([]); // path broke, reset
-    }
-    draw(target);
-  }, [root, width, height, draw, zoomPath, resolveZoom]);
+    draw(zoomNodes.length > 0 ? zoomNodes[zoomNodes.length - 1] : fullData);
+  }, [draw, zoomNodes, fullData]);
 
   function handleBreadcrumbClick(index: number) {
-    if (index === -1) setZoomPath([]);
-    else setZoomPath((prev) => prev.slice(0, index + 1));
+    changeZoom(zoomNodes.slice(0, index + 1).map((n) => n.address));
   }
 
   return (
@@ -252,16 +278,16 @@ export default function TreeMap({ root, width, height }: TreeMapProps) {
           style={{
             background: "none",
             border: "none",
-            color: zoomPath.length === 0 ? "#fff" : "#94a3b8",
+            color: zoomNodes.length === 0 ? "#fff" : "#94a3b8",
             cursor: "pointer",
             padding: "2px 4px",
             fontSize: "13px",
-            fontWeight: zoomPath.length === 0 ? 600 : 400,
+            fontWeight: zoomNodes.length === 0 ? 600 : 400,
           }}
         >
           {root.symbol || "Root"}
         </button>
-        {zoomPath.map((node, i) => (
+        {zoomNodes.map((node, i) => (
           <span key={node.address}>
             <span style={{ color: "#475569", margin: "0 2px" }}>/</span>
             <button
@@ -269,14 +295,14 @@ export default function TreeMap({ root, width, height }: TreeMapProps) {
               style={{
                 background: "none",
                 border: "none",
-                color: i === zoomPath.length - 1 ? "#fff" : "#94a3b8",
+                color: i === zoomNodes.length - 1 ? "#fff" : "#94a3b8",
                 cursor: "pointer",
                 padding: "2px 4px",
                 fontSize: "13px",
-                fontWeight: i === zoomPath.length - 1 ? 600 : 400,
+                fontWeight: i === zoomNodes.length - 1 ? 600 : 400,
               }}
             >
-              {node.symbol}
+              {revealHidden(node.symbol)}
             </button>
           </span>
         ))}
@@ -302,17 +328,41 @@ export default function TreeMap({ root, width, height }: TreeMapProps) {
             boxShadow: "0 4px 12px rgba(0,0,0,0.5)",
           }}
         >
-          <div style={{ fontWeight: 700, fontSize: "15px", marginBottom: "2px" }}>{tooltip.node.name}</div>
-          <div style={{ color: "#94a3b8", marginBottom: "6px", fontSize: "12px" }}>{tooltip.node.symbol}</div>
+          {tooltip.node.warnings.length > 0 && (
+            <div
+              style={{
+                background: "#451a03",
+                border: "1px solid #b45309",
+                borderRadius: "6px",
+                padding: "4px 8px",
+                marginBottom: "6px",
+                color: "#fbbf24",
+                fontSize: "11px",
+              }}
+            >
+              <div style={{ fontWeight: 700 }}>{"\u26A0"} Suspicious token</div>
+              {tooltip.node.warnings.map((w) => (
+                <div key={`${w.field}-${w.flag}-${w.message}`}>{w.message}</div>
+              ))}
+            </div>
+          )}
+          <div style={{ fontWeight: 700, fontSize: "15px", marginBottom: "2px" }}>{revealHidden(tooltip.node.name)}</div>
+          <div style={{ color: "#94a3b8", marginBottom: "6px", fontSize: "12px" }}>{revealHidden(tooltip.node.symbol)}</div>
           <div style={{ display: "flex", justifyContent: "space-between", marginBottom: "3px" }}>
             <span style={{ color: "#64748b" }}>Currency</span>
             <span style={{ color: getCurrencyColor(tooltip.node.currency), fontWeight: 600 }}>
-              {tooltip.node.currency}
+              {revealHidden(tooltip.node.currency)}
             </span>
           </div>
           <div style={{ display: "flex", justifyContent: "space-between", marginBottom: "3px" }}>
             <span style={{ color: "#64748b" }}>TVL (PathUSD)</span>
-            <span style={{ fontWeight: 600 }}>{formatSupply(tooltip.node.totalSupply)}</span>
+            <span style={{ fontWeight: 600 }}>{formatAmount(tooltip.node.tvl)}</span>
+          </div>
+          <div style={{ display: "flex", justifyContent: "space-between", marginBottom: "3px" }}>
+            <span style={{ color: "#64748b" }}>Supply</span>
+            <span>
+              {formatAmount(tooltip.node.totalSupply)} {revealHidden(tooltip.node.currency)}
+            </span>
           </div>
           {tooltip.node.childCount > 0 && (
             <div style={{ display: "flex", justifyContent: "space-between", marginBottom: "3px" }}>
@@ -34,6 +34,57 @@ export const tip20Abi = [
     outputs: [{ type: "uint256" }],
     stateMutability: "view",
   },
+  {
+    type: "function",
+    name: "decimals",
+    inputs: [],
+    outputs: [{ type: "uint8" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "nextQuoteToken",
+    inputs: [],
+    outputs: [{ type: "address" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "paused",
+    inputs: [],
+    outputs: [{ type: "bool" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "supplyCap",
+    inputs: [],
+    outputs: [{ type: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "transferPolicyId",
+    inputs: [],
+    outputs: [{ type: "uint64" }],
+    stateMutability: "view",
+  },
+  {
+    type: "event",
+    name: "NextQuoteTokenSet",
+    inputs: [
+      { type: "address", name: "updater", indexed: true },
+      { type: "address", name: "nextQuoteToken", indexed: true },
+    ],
+  },
+  {
+    type: "event",
+    name: "QuoteTokenUpdate",
+    inputs: [
+      { type: "address", name: "updater", indexed: true },
+      { type: "address", name: "newQuoteToken", indexed: true },
+    ],
+  },
 ] as const;
 
 export const tip20FactoryAbi = [
@@ -87,3 +138,48 @@ export const multicall3Abi = [
     stateMutability: "payable",
   },
 ] as const;
+
+export const stablecoinDexAbi = [
+  {
+    type: "function",
+    name: "pairKey",
+    inputs: [
+      { type: "address", name: "tokenA" },
+      { type: "address", name: "tokenB" },
+    ],
+    outputs: [{ type: "bytes32" }],
+    stateMutability: "pure",
+  },
+  {
+    type: "function",
+    name: "books",
+    inputs: [{ type: "bytes32", name: "pairKey" }],
+    outputs: [
+      {
+        type: "tuple",
+        components: [
+          { type: "address", name: "base" },
+          { type: "address", name: "quote" },
+          { type: "int16", name: "bestBidTick" },
+          { type: "int16", name: "bestAskTick" },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getTickLevel",
+    inputs: [
+      { type: "address", name: "base" },
+      { type: "int16", name: "tick" },
+      { type: "bool", name: "isBid" },
+    ],
+    outputs: [
+      { type: "uint128", name: "head" },
+      { type: "uint128", name: "tail" },
+      { type: "uint128", name: "totalLiquidity" },
+    ],
+    stateMutability: "view",
+  },
+] as const;
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_PRECOMPILES, getNetworks, loadCustomNetworks } from "./chain";
+import type { NetworkSpec } from "./chain";
+
+const VALID: NetworkSpec = {
+  id: "devnet",
+  label: "Devnet",
+  chainId: 1337,
+  rpcUrl: "http://localhost:8545",
+  precompiles: { MULTICALL3: DEFAULT_PRECOMPILES.MULTICALL3 },
+  genesisTokens: ["0x20C0000000000000000000000000000000000000"],
+};
+
+function stored(...specs: unknown[]) {
+  const items = new Map([["tempo-dex-map:custom-networks", JSON.stringify(specs)]]);
+  vi.stubGlobal("localStorage", { getItem: (key: string) => items.get(key) ?? null });
+}
+
+describe("loadCustomNetworks", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("keeps a well-formed network, with or without overrides", () => {
+    stored(VALID, { ...VALID, id: "bare", precompiles: undefined, genesisTokens: undefined });
+    expect(loadCustomNetworks().map((s) => s.id)).toEqual(["devnet", "bare"]);
+  });
+
+  it("drops a network whose precompiles are not addresses", () => {
+    stored(
+      { ...VALID, id: "string", precompiles: "0x20Fc000000000000000000000000000000000000" },
+      { ...VALID, id: "bad-address", precompiles: { TIP20_FACTORY: "0x1234" } },
+      { ...VALID, id: "unknown-key", precompiles: { ROUTER: DEFAULT_PRECOMPILES.MULTICALL3 } },
+      { ...VALID, id: "inherited-key", precompiles: { toString: DEFAULT_PRECOMPILES.MULTICALL3 } },
+      { ...VALID, id: "null", precompiles: null },
+    );
+    expect(loadCustomNetworks()).toEqual([]);
+  });
+
+  it("drops a network whose genesis tokens are not an array of addresses", () => {
+    stored(
+      { ...VALID, id: "string", genesisTokens: "0x20C0000000000000000000000000000000000000" },
+      { ...VALID, id: "bad-address", genesisTokens: ["0x20C0000000000000000000000000000000000000", "pathUSD"] },
+      { ...VALID, id: "number", genesisTokens: [42] },
+    );
+    expect(loadCustomNetworks()).toEqual([]);
+  });
+});
+
+describe("getNetworks", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps a custom network whose id is an Object.prototype key", () => {
+    stored({ ...VALID, id: "constructor" });
+    const networks = getNetworks();
+    expect(Object.hasOwn(networks, "constructor")).toBe(true);
+    expect(networks.constructor).toMatchObject({ id: "constructor", custom: true });
+  });
+
+  it("has no network for an Object.prototype key that was not configured", () => {
+    stored();
+    const networks = getNetworks();
+    expect(Object.hasOwn(networks, "toString")).toBe(false);
+    expect(Object.hasOwn(networks, "__proto__")).toBe(false);
+  });
+});
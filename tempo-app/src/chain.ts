@@ -1,80 +1,222 @@
-import { defineChain } from "viem";
+import { defineChain, isAddress } from "viem";
 import type { Address } from "viem";
 
 // ── Network types ────────────────────────────────────────────────
 
-export type NetworkId = "mainnet" | "testnet";
+/** Identifier of a configured network: a built-in one, one from the build env, or a custom one. */
+export type NetworkId = string;
 
 export interface NetworkConfig {
   id: NetworkId;
   label: string;
   chain: ReturnType<typeof defineChain>;
   rpcUrl: string;
+  /** Tried in order when `rpcUrl` keeps failing. */
+  fallbackRpcUrls?: readonly string[];
   rpcAuth?: string;
+  /** Request budget shared by every client for this network. */
+  requestsPerSecond?: number;
   precompiles: {
     TIP20_FACTORY: Address;
     STABLECOIN_DEX: Address;
     MULTICALL3: Address;
   };
   genesisTokens: readonly Address[];
+  /** Block explorer base URL, e.g. "https://explore.tempo.xyz"; links are hidden without one. */
+  explorerUrl?: string;
+  /** Added at runtime through the custom network dialog (stored in localStorage). */
+  custom?: boolean;
 }
 
-// ── Mainnet ──────────────────────────────────────────────────────
-
-const mainnetChain = defineChain({
-  id: 4217,
-  name: "Tempo",
-  nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
-  rpcUrls: {
-    default: {
-      http: ["https://rpc.tempo.xyz"],
-    },
-  },
-});
-
-// ── Testnet ──────────────────────────────────────────────────────
-
-const testnetChain = defineChain({
-  id: 42431,
-  name: "Tempo Testnet",
-  nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
-  rpcUrls: {
-    default: {
-      http: ["https://rpc.moderato.tempo.xyz"],
-    },
-  },
-});
+/** Serializable network definition, as found in `VITE_NETWORKS` and localStorage. */
+export interface NetworkSpec {
+  id: NetworkId;
+  label: string;
+  chainId: number;
+  rpcUrl: string;
+  fallbackRpcUrls?: string[];
+  /** Full Authorization header value, e.g. "Basic dXNlcjpwYXNz". */
+  rpcAuth?: string;
+  requestsPerSecond?: number;
+  precompiles?: Partial<NetworkConfig["precompiles"]>;
+  genesisTokens?: Address[];
+  explorerUrl?: string;
+}
 
 // ── Shared precompile addresses ──────────────────────────────────
 
-const PRECOMPILES = {
-  TIP20_FACTORY: "0x20Fc000000000000000000000000000000000000" as Address,
-  STABLECOIN_DEX: "0xDEc0000000000000000000000000000000000000" as Address,
-  MULTICALL3: "0xcA11bde05977b3631167028862bE2a173976CA11" as Address,
+export const DEFAULT_PRECOMPILES: NetworkConfig["precompiles"] = {
+  TIP20_FACTORY: "0x20Fc000000000000000000000000000000000000",
+  STABLECOIN_DEX: "0xDEc0000000000000000000000000000000000000",
+  MULTICALL3: "0xcA11bde05977b3631167028862bE2a173976CA11",
 };
 
-const GENESIS_TOKENS = [
-  "0x20C0000000000000000000000000000000000000" as Address, // pathUSD
-] as const;
+export const DEFAULT_GENESIS_TOKENS: readonly Address[] = [
+  "0x20C0000000000000000000000000000000000000", // pathUSD
+];
 
-// ── Exports ──────────────────────────────────────────────────────
+// ── Build-time configuration ─────────────────────────────────────
+
+function readEnv(name: keyof ImportMetaEnv): string | undefined {
+  // import.meta.env is only populated by Vite; the headless CLI reads process.env instead
+  const env = import.meta.env as ImportMetaEnv | undefined;
+  const nodeEnv = (globalThis as { process?: { env?: Record<string, string | undefined> } }).process?.env;
+  return env?.[name] ?? nodeEnv?.[name];
+}
+
+const isAddressString = (v: unknown): v is Address => typeof v === "string" && isAddress(v);
 
-export const NETWORKS: Record<NetworkId, NetworkConfig> = {
-  mainnet: {
+/** Precompile overrides: only known keys, each an address. */
+function isPrecompiles(v: unknown): v is NetworkSpec["precompiles"] {
+  return (
+    typeof v === "object" &&
+    v !== null &&
+    !Array.isArray(v) &&
+    Object.entries(v).every(([key, addr]) => Object.hasOwn(DEFAULT_PRECOMPILES, key) && isAddressString(addr))
+  );
+}
+
+function isNetworkSpec(v: unknown): v is NetworkSpec {
+  const s = v as NetworkSpec;
+  return (
+    typeof s === "object" &&
+    s !== null &&
+    typeof s.id === "string" &&
+    s.id.length > 0 &&
+    typeof s.label === "string" &&
+    typeof s.chainId === "number" &&
+    typeof s.rpcUrl === "string" &&
+    (s.fallbackRpcUrls === undefined || (Array.isArray(s.fallbackRpcUrls) && s.fallbackRpcUrls.every((u) => typeof u === "string"))) &&
+    (s.precompiles === undefined || isPrecompiles(s.precompiles)) &&
+    (s.genesisTokens === undefined || (Array.isArray(s.genesisTokens) && s.genesisTokens.every(isAddressString))) &&
+    (s.explorerUrl === undefined || typeof s.explorerUrl === "string")
+  );
+}
+
+function parseSpecs(json: string | null | undefined, source: string): NetworkSpec[] {
+  if (!json) return [];
+  try {
+    const parsed: unknown = JSON.parse(json);
+    if (!Array.isArray(parsed)) throw new Error("expected an array");
+    return parsed.filter((s) => {
+      if (isNetworkSpec(s)) return true;
+      console.warn(`Ignoring malformed network in ${source}:`, s);
+      return false;
+    });
+  } catch (err) {
+    console.warn(`Ignoring ${source}:`, err);
+    return [];
+  }
+}
+
+function envRequestsPerSecond(): number | undefined {
+  const rps = Number(readEnv("VITE_RPC_REQUESTS_PER_SECOND"));
+  return Number.isFinite(rps) && rps > 0 ? rps : undefined;
+}
+
+export function networkFromSpec(spec: NetworkSpec, custom = false): NetworkConfig {
+  return {
+    id: spec.id,
+    label: spec.label,
+    chain: defineChain({
+      id: spec.chainId,
+      name: spec.label,
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      rpcUrls: { default: { http: [spec.rpcUrl, ...(spec.fallbackRpcUrls ?? [])] } },
+    }),
+    rpcUrl: spec.rpcUrl,
+    fallbackRpcUrls: spec.fallbackRpcUrls,
+    rpcAuth: spec.rpcAuth || undefined,
+    requestsPerSecond: spec.requestsPerSecond ?? envRequestsPerSecond(),
+    precompiles: { ...DEFAULT_PRECOMPILES, ...spec.precompiles },
+    genesisTokens: spec.genesisTokens && spec.genesisTokens.length > 0 ? spec.genesisTokens : DEFAULT_GENESIS_TOKENS,
+    explorerUrl: spec.explorerUrl?.replace(/\/+$/, "") || undefined,
+    custom,
+  };
+}
+
+/** Serializable form of a network (e.g. to post it to a worker); `networkFromSpec` restores it. */
+export function specFromNetwork(network: NetworkConfig): NetworkSpec {
+  return {
+    id: network.id,
+    label: network.label,
+    chainId: network.chain.id,
+    rpcUrl: network.rpcUrl,
+    fallbackRpcUrls: network.fallbackRpcUrls ? [...network.fallbackRpcUrls] : undefined,
+    rpcAuth: network.rpcAuth,
+    requestsPerSecond: network.requestsPerSecond,
+    precompiles: { ...network.precompiles },
+    genesisTokens: [...network.genesisTokens],
+    explorerUrl: network.explorerUrl,
+  };
+}
+
+const BUILTIN_SPECS: NetworkSpec[] = [
+  {
     id: "mainnet",
     label: "Mainnet",
-    chain: mainnetChain,
+    chainId: 4217,
     rpcUrl: "https://rpc.tempo.xyz",
-    rpcAuth: "Basic " + btoa("angry-meitner:cool-hypatia"),
-    precompiles: PRECOMPILES,
-    genesisTokens: GENESIS_TOKENS,
+    rpcAuth: readEnv("VITE_MAINNET_RPC_AUTH"),
+    explorerUrl: readEnv("VITE_MAINNET_EXPLORER_URL"),
   },
-  testnet: {
+  {
     id: "testnet",
     label: "Testnet",
-    chain: testnetChain,
+    chainId: 42431,
     rpcUrl: "https://rpc.moderato.tempo.xyz",
-    precompiles: PRECOMPILES,
-    genesisTokens: GENESIS_TOKENS,
+    explorerUrl: readEnv("VITE_TESTNET_EXPLORER_URL"),
   },
-};
+];
+
+function toRecord(specs: NetworkSpec[], custom = false): Record<NetworkId, NetworkConfig> {
+  const out: Record<NetworkId, NetworkConfig> = {};
+  for (const spec of specs) out[spec.id] = networkFromSpec(spec, custom);
+  return out;
+}
+
+// ── Exports ──────────────────────────────────────────────────────
+
+/** Built-in networks plus any defined at build time via `VITE_NETWORKS` (which may override them). */
+export const NETWORKS: Record<NetworkId, NetworkConfig> = toRecord([
+  ...BUILTIN_SPECS,
+  ...parseSpecs(readEnv("VITE_NETWORKS"), "VITE_NETWORKS"),
+]);
+
+export const DEFAULT_NETWORK_ID: NetworkId = (() => {
+  const id = readEnv("VITE_DEFAULT_NETWORK");
+  return id && Object.hasOwn(NETWORKS, id) ? id : "mainnet";
+})();
+
+/** Link to an address or block on the network's explorer, or null if none is configured. */
+export function explorerLink(network: NetworkConfig, kind: "address" | "block", value: string | number): string | null {
+  return network.explorerUrl ? `${network.explorerUrl}/${kind}/${value}` : null;
+}
+
+// ── Custom networks (localStorage) ───────────────────────────────
+
+const CUSTOM_NETWORKS_KEY = "tempo-dex-map:custom-networks";
+
+export function loadCustomNetworks(): NetworkSpec[] {
+  if (typeof localStorage === "undefined") return [];
+  return parseSpecs(localStorage.getItem(CUSTOM_NETWORKS_KEY), "saved custom networks");
+}
+
+function storeCustomNetworks(specs: NetworkSpec[]) {
+  localStorage.setItem(CUSTOM_NETWORKS_KEY, JSON.stringify(specs));
+}
+
+/** Add or replace a custom network by id. */
+export function saveCustomNetwork(spec: NetworkSpec) {
+  storeCustomNetworks([...loadCustomNetworks().filter((s) => s.id !== spec.id), spec]);
+}
+
+export function removeCustomNetwork(id: NetworkId) {
+  storeCustomNetworks(loadCustomNetworks().filter((s) => s.id !== id));
+}
+
+/** Every configured network: build-time ones first, then custom ones (which cannot shadow them). */
+export function getNetworks(): Record<NetworkId, NetworkConfig> {
+  const custom = toRecord(loadCustomNetworks().filter((s) => !Object.hasOwn(NETWORKS, s.id)), true);
+  return { ...NETWORKS, ...custom };
+}
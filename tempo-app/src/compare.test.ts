@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { zeroAddress } from "viem";
+import { compareTokens } from "./compare";
+import type { TokenInfo } from "./fetchTokens";
+import type { TokenPrice } from "./pricing";
+
+const addr = (n: number) => `0x20c0${n.toString(16).padStart(36, "0")}`;
+
+/** `supply` in whole tokens (6 decimals). */
+function token(n: number, quote: number | null, supply: number): TokenInfo {
+  const quoteToken = quote === null ? zeroAddress : addr(quote);
+  return {
+    address: addr(n),
+    name: `Token ${n}`,
+    symbol: `T${n}`,
+    currency: "USD",
+    quoteToken,
+    nextQuoteToken: null,
+    quoteHistory: [{ quoteToken, blockNumber: 0 }],
+    createdBlock: n,
+    totalSupply: BigInt(supply) * 1_000_000n,
+    decimals: 6,
+  };
+}
+
+const NO_PRICES = new Map<string, TokenPrice>();
+
+describe("compareTokens", () => {
+  const before = [token(0, null, 0), token(1, 0, 100), token(2, 0, 50), token(3, 0, 10), token(4, 1, 5)];
+  const after = [token(0, null, 0), token(1, 0, 100), token(2, 0, 80), token(3, 1, 10), token(5, 0, 7)];
+  const result = compareTokens(before, after, NO_PRICES);
+
+  it("classifies each changed token", () => {
+    expect(Object.fromEntries([...result.changes].map(([key, c]) => [key, c.kind]))).toEqual({
+      [addr(2)]: "supply",
+      [addr(3)]: "reparented",
+      [addr(4)]: "removed",
+      [addr(5)]: "added",
+    });
+    expect(result).toMatchObject({ added: 1, removed: 1, reparented: 1, supplyChanged: 1 });
+  });
+
+  it("records both sides of a change", () => {
+    expect(result.changes.get(addr(2))).toMatchObject({ supplyBefore: 50, supplyAfter: 80, tvlDelta: 30 });
+    expect(result.changes.get(addr(3))).toMatchObject({ parentBefore: addr(0), parentAfter: addr(1), tvlDelta: 0 });
+    expect(result.changes.get(addr(4))).toMatchObject({ supplyBefore: 5, supplyAfter: null, tvlDelta: -5 });
+    expect(result.changes.get(addr(5))).toMatchObject({ supplyBefore: null, supplyAfter: 7, parentBefore: null });
+  });
+
+  it("values supply changes at current prices", () => {
+    const prices = new Map<string, TokenPrice>([[addr(2), { price: 1.5, source: "fx" }]]);
+    expect(compareTokens(before, after, prices).changes.get(addr(2))!.tvlDelta).toBe(45);
+  });
+
+  it("lists only tokens on both sides with a value change as movers, biggest first", () => {
+    const grown = [token(0, null, 0), token(1, 0, 90), token(2, 0, 80), token(3, 1, 10), token(5, 0, 7)];
+    expect(compareTokens(before, grown, NO_PRICES).movers.map((c) => [c.address, c.tvlDelta])).toEqual([
+      [addr(2), 30],
+      [addr(1), -10],
+    ]);
+  });
+
+  it("reports nothing for identical lists", () => {
+    expect(compareTokens(before, before, NO_PRICES)).toMatchObject({ added: 0, removed: 0, movers: [], newSubtrees: [] });
+  });
+});
+
+describe("newSubtrees", () => {
+  const before = [token(0, null, 0)];
+
+  it("groups added tokens under their topmost added ancestor, largest first", () => {
+    const after = [...before, token(1, 0, 1), token(2, 1, 2), token(3, 2, 3), token(4, 0, 100)];
+    const { newSubtrees } = compareTokens(before, after, NO_PRICES);
+    expect(newSubtrees.map((s) => [s.root.address, s.size, s.tvl])).toEqual([
+      [addr(1), 3, 6],
+      [addr(4), 1, 100],
+    ]);
+  });
+
+  it("terminates on a quote-token cycle among added tokens", () => {
+    const { newSubtrees } = compareTokens(before, [...before, token(1, 2, 1), token(2, 1, 1)], NO_PRICES);
+    expect(newSubtrees.reduce((n, s) => n + s.size, 0)).toBe(2);
+  });
+
+  it("handles a very long chain of added tokens without overflowing the stack", () => {
+    const chain = Array.from({ length: 50_000 }, (_, i) => token(i + 1, i, 1));
+    const { newSubtrees } = compareTokens(before, [...before, ...chain], NO_PRICES);
+    expect(newSubtrees.map((s) => [s.root.address, s.size])).toEqual([[addr(1), 50_000]]);
+  });
+});
@@ -0,0 +1,149 @@
+import type { TokenInfo } from "./fetchTokens";
+import type { TokenPrice } from "./pricing";
+import { walkQuoteChain } from "./quoteChain";
+import { toUnits } from "./units";
+
+// ── Comparing two token lists ─────────────────────────────────────
+
+export type ChangeKind = "added" | "removed" | "reparented" | "supply";
+
+/** How a token differs between a baseline and the current state. */
+export interface TokenChange {
+  address: string;
+  symbol: string;
+  kind: ChangeKind;
+  /** Whole-token supplies; null on the side where the token does not exist. */
+  supplyBefore: number | null;
+  supplyAfter: number | null;
+  /** PathUSD value of the supply change, at current prices. */
+  tvlDelta: number;
+  parentBefore: string | null;
+  parentAfter: string | null;
+}
+
+/** A token created since the baseline under an existing quote token, with everything created beneath it. */
+export interface NewSubtree {
+  root: TokenChange;
+  /** Tokens in the subtree, including its root. */
+  size: number;
+  tvl: number;
+}
+
+export interface TokenComparison {
+  /** Every token that differs, by lowercased address. */
+  changes: Map<string, TokenChange>;
+  added: number;
+  removed: number;
+  reparented: number;
+  supplyChanged: number;
+  /** Tokens present on both sides with the largest supply change by value, biggest first. */
+  movers: TokenChange[];
+  /** Largest new subtrees first. */
+  newSubtrees: NewSubtree[];
+}
+
+/** Movers and new subtrees kept for the summary. */
+const TOP_N = 20;
+
+/** Compare a baseline token list with the current one; `prices` values supply changes. */
+export function compareTokens(
+  before: TokenInfo[],
+  after: TokenInfo[],
+  prices: Map<string, TokenPrice>,
+): TokenComparison {
+  const changes = new Map<string, TokenChange>();
+  const counts = { added: 0, removed: 0, reparented: 0, supplyChanged: 0 };
+  const priceOf = (key: string) => prices.get(key)?.price ?? 1;
+
+  const beforeByAddr = new Map(before.map((t) => [t.address.toLowerCase(), t]));
+  const afterKeys = new Set<string>();
+
+  for (const t of after) {
+    const key = t.address.toLowerCase();
+    afterKeys.add(key);
+    const old = beforeByAddr.get(key);
+    const supplyAfter = toUnits(t.totalSupply, t.decimals);
+    if (!old) {
+      counts.added++;
+      changes.set(key, {
+        address: t.address,
+        symbol: t.symbol,
+        kind: "added",
+        supplyBefore: null,
+        supplyAfter,
+        tvlDelta: supplyAfter * priceOf(key),
+        parentBefore: null,
+        parentAfter: t.quoteToken,
+      });
+      continue;
+    }
+    const reparented = old.quoteToken.toLowerCase() !== t.quoteToken.toLowerCase();
+    const supplyChanged = old.totalSupply !== t.totalSupply;
+    if (!reparented && !supplyChanged) continue;
+    if (reparented) counts.reparented++;
+    if (supplyChanged) counts.supplyChanged++;
+    const supplyBefore = toUnits(old.totalSupply, old.decimals);
+    changes.set(key, {
+      address: t.address,
+      symbol: t.symbol,
+      kind: reparented ? "reparented" : "supply",
+      supplyBefore,
+      supplyAfter,
+      tvlDelta: (supplyAfter - supplyBefore) * priceOf(key),
+      parentBefore: old.quoteToken,
+      parentAfter: t.quoteToken,
+    });
+  }
+
+  for (const [key, t] of beforeByAddr) {
+    if (afterKeys.has(key)) continue;
+    counts.removed++;
+    const supplyBefore = toUnits(t.totalSupply, t.decimals);
+    changes.set(key, {
+      address: t.address,
+      symbol: t.symbol,
+      kind: "removed",
+      supplyBefore,
+      supplyAfter: null,
+      tvlDelta: -supplyBefore * priceOf(key),
+      parentBefore: t.quoteToken,
+      parentAfter: null,
+    });
+  }
+
+  const movers = [...changes.values()]
+    .filter((c) => c.supplyBefore !== null && c.supplyAfter !== null && c.tvlDelta !== 0)
+    .sort((a, b) => Math.abs(b.tvlDelta) - Math.abs(a.tvlDelta))
+    .slice(0, TOP_N);
+
+  return { changes, ...counts, movers, newSubtrees: newSubtrees(changes) };
+}
+
+/** Group added tokens under the topmost added ancestor. */
+function newSubtrees(changes: Map<string, TokenChange>): NewSubtree[] {
+  const subtrees = new Map<string, NewSubtree>();
+  const rootOf = new Map<string, string>();
+
+  const addedParentOf = (key: string) => {
+    const parent = changes.get(key)?.parentAfter?.toLowerCase();
+    return parent && changes.get(parent)?.kind === "added" ? parent : undefined;
+  };
+  function findRoot(key: string): string {
+    const chain = walkQuoteChain(key, addedParentOf, (k) => rootOf.has(k));
+    const top = chain[chain.length - 1];
+    const root = rootOf.get(top) ?? top;
+    for (const k of chain) rootOf.set(k, root);
+    return root;
+  }
+
+  for (const [key, change] of changes) {
+    if (change.kind !== "added") continue;
+    const root = findRoot(key);
+    const subtree = subtrees.get(root) ?? { root: changes.get(root)!, size: 0, tvl: 0 };
+    subtree.size++;
+    subtree.tvl += change.tvlDelta;
+    subtrees.set(root, subtree);
+  }
+
+  return [...subtrees.values()].sort((a, b) => b.size - a.size || b.tvl - a.tvl).slice(0, TOP_N);
+}
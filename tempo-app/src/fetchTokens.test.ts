@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { maxUint256, zeroAddress } from "viem";
+import { buildTree, type TokenInfo } from "./fetchTokens";
+import { formatExact } from "./units";
+
+const ROOT = "0x20c0000000000000000000000000000000000000";
+const HUGE = "0x20c0000000000000000000000000000000000001";
+const WHOLE = "0x20c0000000000000000000000000000000000002";
+const WEI = "0x20c0000000000000000000000000000000000003";
+const NESTED = "0x20c0000000000000000000000000000000000004";
+
+function token(address: string, quoteToken: string, totalSupply: bigint, decimals: number): TokenInfo {
+  return {
+    address,
+    name: address.slice(-4),
+    symbol: address.slice(-4),
+    currency: "USD",
+    quoteToken,
+    nextQuoteToken: null,
+    quoteHistory: [{ quoteToken, blockNumber: 0 }],
+    createdBlock: 0,
+    totalSupply,
+    decimals,
+  };
+}
+
+const tokens = [
+  token(ROOT, zeroAddress, 0n, 6),
+  token(WEI, ROOT, 1n, 18),
+  token(WHOLE, ROOT, 1234n, 0),
+  token(HUGE, ROOT, maxUint256, 18),
+  token(NESTED, WEI, 5_000_000_000n, 6),
+];
+
+describe("buildTree", () => {
+  it("values supplies in each token's own decimals", () => {
+    const { root } = buildTree(tokens);
+    const byAddr = new Map(root.children.map((c) => [c.address, c]));
+    expect(byAddr.get(HUGE)!.tvl).toBeCloseTo(1.157920892373162e59, -45);
+    expect(byAddr.get(WHOLE)!.tvl).toBe(1234);
+    expect(byAddr.get(WEI)!.tvl).toBe(1e-18);
+    expect(formatExact(byAddr.get(HUGE)!.totalSupply, byAddr.get(HUGE)!.decimals)).toBe(
+      "115792089237316195423570985008687907853269984665640564039457.584007913129639935",
+    );
+    expect(formatExact(byAddr.get(WEI)!.totalSupply, byAddr.get(WEI)!.decimals)).toBe("0.000000000000000001");
+    expect(formatExact(byAddr.get(WHOLE)!.totalSupply, byAddr.get(WHOLE)!.decimals)).toBe("1234");
+  });
+
+  it("orders children by subtree TVL, largest first", () => {
+    const { root } = buildTree(tokens);
+    expect(root.address).toBe(ROOT);
+    // The 1-wei token outranks the 0-decimals one through its 5,000-token child
+    expect(root.children.map((c) => c.address)).toEqual([HUGE, WEI, WHOLE]);
+  });
+
+  it("sums subtree TVL and descendant counts bottom-up", () => {
+    const { root } = buildTree(tokens);
+    const wei = root.children.find((c) => c.address === WEI)!;
+    expect(wei.subtreeTvl).toBe(5000 + 1e-18);
+    expect(wei.descendantCount).toBe(1);
+    expect(root.descendantCount).toBe(4);
+    expect(root.subtreeTvl).toBeCloseTo(1.157920892373162e59, -45);
+  });
+
+  it("drops a 1-wei token below the TVL floor but keeps the ancestors of tokens above it", () => {
+    const { root, visibleCount, tokenCount } = buildTree(tokens, 1);
+    expect(tokenCount).toBe(5);
+    expect(visibleCount).toBe(5);
+    const withoutChild = buildTree(tokens.filter((t) => t.address !== NESTED), 1);
+    expect(withoutChild.root.children.map((c) => c.address)).toEqual([HUGE, WHOLE]);
+    expect(root.children.find((c) => c.address === WEI)!.children.map((c) => c.address)).toEqual([NESTED]);
+  });
+});
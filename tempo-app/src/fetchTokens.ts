@@ -1,23 +1,37 @@
 import {
   createPublicClient,
-  http,
   type Address,
   getAddress,
   encodeFunctionData,
   decodeFunctionResult,
   zeroAddress,
-  formatUnits,
 } from "viem";
 import type { NetworkConfig } from "./chain";
-import { tip20Abi, tip20FactoryAbi, multicall3Abi } from "./abi";
+import { tip20Abi, tip20FactoryAbi, multicall3Abi, stablecoinDexAbi } from "./abi";
+import { computePrices, type PriceSource, type TokenPrice } from "./pricing";
+import { makeTransport } from "./transport";
+import { DEFAULT_DECIMALS, toUnits } from "./units";
+
+/** A token's quote token as of a block: its creation-time parent, or a later QuoteTokenUpdate. */
+export interface QuoteTokenChange {
+  quoteToken: string;
+  blockNumber: number;
+}
 
 export interface TokenInfo {
   address: string;
   name: string;
   symbol: string;
   currency: string;
-  quoteToken: string;
-  totalSupply: number; // in whole units (post-decimal), denominated as PathUSD
+  quoteToken: string; // current quote token, read on-chain (falls back to the TokenCreated value)
+  nextQuoteToken: string | null; // staged via setNextQuoteToken, not yet completed
+  quoteHistory: QuoteTokenChange[]; // creation-time quote token first, then each completed update
+  createdBlock: number;
+  totalSupply: bigint; // raw base units; divide by 10^decimals for whole tokens
+  decimals: number;
+  /** Admin and CREATE2 salt from TokenCreated; unknown for genesis tokens. */
+  admin?: string;
+  salt?: string;
 }
 
 export interface TokenNode {
@@ -26,91 +40,438 @@ export interface TokenNode {
   symbol: string;
   currency: string;
   quoteToken: string;
-  totalSupply: number;
+  nextQuoteToken: string | null;
+  quoteHistory: QuoteTokenChange[];
+  createdBlock: number;
+  totalSupply: bigint;
+  decimals: number;
+  admin?: string;
+  salt?: string;
+  /** PathUSD per whole token, and where that price came from. */
+  price: number;
+  priceSource: PriceSource;
+  /** PathUSD value of totalSupply. */
+  tvl: number;
+  /** `tvl` of this token and all its descendants; filled in once per build. */
+  subtreeTvl: number;
+  /** Number of descendants, excluding the token itself. */
+  descendantCount: number;
   children: TokenNode[];
 }
 
-function makeClient(network: NetworkConfig) {
-  const headers: Record<string, string> = {};
-  if (network.rpcAuth) {
-    headers["Authorization"] = network.rpcAuth;
-  }
+function makeClient(network: NetworkConfig, signal?: AbortSignal) {
   return createPublicClient({
     chain: network.chain,
-    transport: http(network.rpcUrl, {
-      fetchOptions: {
-        headers,
-      },
-    }),
+    transport: makeTransport(network, signal),
   });
 }
 
 type Client = ReturnType<typeof makeClient>;
 
-// ── Multicall totalSupply helper ──────────────────────────────────
+/** Throw if the RPC endpoint serves a different chain than the network is configured for. */
+export async function verifyChainId(network: NetworkConfig): Promise<void> {
+  const actual = await makeClient(network).getChainId();
+  if (actual !== network.chain.id) {
+    throw new Error(`${network.rpcUrl} reports chain id ${actual}, but ${network.label} expects ${network.chain.id}`);
+  }
+}
 
-const totalSupplyCallData = encodeFunctionData({
-  abi: tip20Abi,
-  functionName: "totalSupply",
-});
+// ── Multicall helpers ─────────────────────────────────────────────
 
-async function batchFetchSupplies(client: Client, precompiles: NetworkConfig["precompiles"], addresses: Address[]): Promise<Map<string, number>> {
-  const result = new Map<string, number>();
-  if (addresses.length === 0) return result;
+/** `batchFailed` marks calls whose whole multicall batch failed (after retries), as opposed to a reverted call. */
+type CallResult = { success: boolean; returnData: `0x${string}`; batchFailed?: boolean };
 
+/**
+ * Run calls through Multicall3 in fixed-size batches; a failed batch yields
+ * `batchFailed` results. With `blockNumber`, calls read state as of that block.
+ */
+async function aggregate(
+  client: Client,
+  precompiles: NetworkConfig["precompiles"],
+  calls: { target: Address; callData: `0x${string}` }[],
+  blockNumber?: bigint,
+): Promise<CallResult[]> {
+  const results: CallResult[] = [];
   const BATCH = 500;
-  for (let i = 0; i < addresses.length; i += BATCH) {
-    const batch = addresses.slice(i, i + BATCH);
+  for (let i = 0; i < calls.length; i += BATCH) {
+    const batch = calls.slice(i, i + BATCH);
     try {
       const response = await client.readContract({
         address: precompiles.MULTICALL3,
         abi: multicall3Abi,
         functionName: "aggregate3",
-        args: [batch.map((addr) => ({ target: addr, allowFailure: true, callData: totalSupplyCallData }))],
+        args: [batch.map((c) => ({ ...c, allowFailure: true }))],
+        blockNumber,
       });
-      const returnData = response as { success: boolean; returnData: `0x${string}` }[];
-      for (let j = 0; j < batch.length; j++) {
-        if (returnData[j].success && returnData[j].returnData.length > 2) {
-          try {
-            const raw = decodeFunctionResult({
-              abi: tip20Abi,
-              functionName: "totalSupply",
-              data: returnData[j].returnData,
-            }) as bigint;
-            // Convert to human-readable (6 decimals) as a float
-            result.set(batch[j].toLowerCase(), parseFloat(formatUnits(raw, 6)));
-          } catch {
-            result.set(batch[j].toLowerCase(), 0);
-          }
-        } else {
-          result.set(batch[j].toLowerCase(), 0);
-        }
-      }
+      results.push(...(response as CallResult[]));
     } catch (err) {
       console.error(`Multicall batch error at ${i}:`, err);
-      for (const addr of batch) result.set(addr.toLowerCase(), 0);
+      for (let j = 0; j < batch.length; j++) results.push({ success: false, returnData: "0x", batchFailed: true });
+    }
+  }
+  return results;
+}
+
+/** Live on-chain state of a token that can change after creation. */
+export interface TokenState {
+  /** Raw base units. */
+  totalSupply: bigint;
+  /** Only read for newly discovered tokens, since it never changes. */
+  decimals?: number;
+  /** Current quote token, or null if it could not be read. */
+  quoteToken: string | null;
+  /** Quote token staged via setNextQuoteToken but not yet completed, if any. */
+  nextQuoteToken: string | null;
+}
+
+const totalSupplyCallData = encodeFunctionData({ abi: tip20Abi, functionName: "totalSupply" });
+const quoteTokenCallData = encodeFunctionData({ abi: tip20Abi, functionName: "quoteToken" });
+const nextQuoteTokenCallData = encodeFunctionData({ abi: tip20Abi, functionName: "nextQuoteToken" });
+const decimalsCallData = encodeFunctionData({ abi: tip20Abi, functionName: "decimals" });
+
+function decodeAddress(r: CallResult, functionName: "quoteToken" | "nextQuoteToken"): string | null {
+  if (!r.success || r.returnData.length <= 2) return null;
+  try {
+    return getAddress(decodeFunctionResult({ abi: tip20Abi, functionName, data: r.returnData }));
+  } catch {
+    return null;
+  }
+}
+
+/** Token state by lowercased address; tokens whose multicall batch failed are listed in `failed` instead. */
+interface TokenStateBatch {
+  states: Map<string, TokenState>;
+  failed: string[];
+}
+
+/**
+ * Read totalSupply, quoteToken and nextQuoteToken (plus decimals when
+ * `withDecimals` is set) of every token in one multicall pass.
+ */
+async function batchFetchTokenState(
+  client: Client,
+  precompiles: NetworkConfig["precompiles"],
+  addresses: Address[],
+  withDecimals = false,
+  blockNumber?: bigint,
+): Promise<TokenStateBatch> {
+  const result = new Map<string, TokenState>();
+  const failed: string[] = [];
+  if (addresses.length === 0) return { states: result, failed };
+
+  const callsPerToken = withDecimals ? 4 : 3;
+  const responses = await aggregate(
+    client,
+    precompiles,
+    addresses.flatMap((addr) => [
+      { target: addr, callData: totalSupplyCallData },
+      { target: addr, callData: quoteTokenCallData },
+      { target: addr, callData: nextQuoteTokenCallData },
+      ...(withDecimals ? [{ target: addr, callData: decimalsCallData }] : []),
+    ]),
+    blockNumber,
+  );
+
+  addresses.forEach((addr, i) => {
+    const [supplyRes, quoteRes, nextRes, decimalsRes] = responses.slice(callsPerToken * i, callsPerToken * (i + 1));
+    // No state beats a false zero supply: leave it out so callers keep what they had
+    if (supplyRes.batchFailed) {
+      failed.push(addr);
+      return;
+    }
+    let totalSupply = 0n;
+    if (supplyRes.success && supplyRes.returnData.length > 2) {
+      try {
+        totalSupply = decodeFunctionResult({ abi: tip20Abi, functionName: "totalSupply", data: supplyRes.returnData });
+      } catch {
+        totalSupply = 0n;
+      }
+    }
+    let decimals: number | undefined;
+    if (decimalsRes?.success && decimalsRes.returnData.length > 2) {
+      try {
+        decimals = decodeFunctionResult({ abi: tip20Abi, functionName: "decimals", data: decimalsRes.returnData });
+      } catch {
+        decimals = undefined;
+      }
+    }
+    const next = decodeAddress(nextRes, "nextQuoteToken");
+    result.set(addr.toLowerCase(), {
+      totalSupply,
+      decimals,
+      quoteToken: decodeAddress(quoteRes, "quoteToken"),
+      nextQuoteToken: next && next !== zeroAddress ? next : null,
+    });
+  });
+  return { states: result, failed };
+}
+
+export interface TokenStateOptions {
+  /** Receives tokens whose batch failed; they are omitted from the result. */
+  onFailed?: (addresses: string[]) => void;
+  /** Cancels outstanding requests; the promise then rejects. */
+  signal?: AbortSignal;
+  /** Read state as of this block instead of the latest; needs an archive RPC. */
+  blockNumber?: number;
+}
+
+/** Re-read supply and quote tokens for a set of known tokens (e.g. to refresh cached snapshots). */
+export async function fetchTokenState(
+  network: NetworkConfig,
+  addresses: string[],
+  options: TokenStateOptions = {},
+): Promise<Map<string, TokenState>> {
+  const { onFailed, signal, blockNumber } = options;
+  const client = makeClient(network, signal);
+  const { states, failed } = await batchFetchTokenState(
+    client,
+    network.precompiles,
+    addresses.map((a) => getAddress(a)),
+    false,
+    blockNumber === undefined ? undefined : BigInt(blockNumber),
+  );
+  signal?.throwIfAborted();
+  if (failed.length > 0) onFailed?.(failed);
+  return states;
+}
+
+/** Return `tokens` with fresh state applied where `states` has an entry. */
+export function applyTokenState(tokens: TokenInfo[], states: Map<string, TokenState>): TokenInfo[] {
+  if (states.size === 0) return tokens;
+  return tokens.map((t) => {
+    const st = states.get(t.address.toLowerCase());
+    if (!st) return t;
+    const quoteToken = st.quoteToken ?? t.quoteToken;
+    if (st.totalSupply === t.totalSupply && quoteToken === t.quoteToken && st.nextQuoteToken === t.nextQuoteToken) return t;
+    return { ...t, totalSupply: st.totalSupply, quoteToken, nextQuoteToken: st.nextQuoteToken };
+  });
+}
+
+// ── Token details ─────────────────────────────────────────────────
+
+/** Metadata shown in the token panel; each field is null when it could not be read. */
+export interface TokenDetails {
+  paused: boolean | null;
+  /** Raw base units. */
+  supplyCap: bigint | null;
+  transferPolicyId: bigint | null;
+  decimals: number | null;
+  quoteToken: string | null;
+  /** Creation block timestamp (seconds since epoch); null for genesis tokens. */
+  createdAt: number | null;
+}
+
+const pausedCallData = encodeFunctionData({ abi: tip20Abi, functionName: "paused" });
+const supplyCapCallData = encodeFunctionData({ abi: tip20Abi, functionName: "supplyCap" });
+const transferPolicyIdCallData = encodeFunctionData({ abi: tip20Abi, functionName: "transferPolicyId" });
+
+function decodeOrNull<T>(r: CallResult, decode: (data: `0x${string}`) => T): T | null {
+  if (!r.success || r.returnData.length <= 2) return null;
+  try {
+    return decode(r.returnData);
+  } catch {
+    return null;
+  }
+}
+
+/** Read one token's metadata in a single multicall, plus its creation block's timestamp. */
+export async function fetchTokenDetails(
+  network: NetworkConfig,
+  address: string,
+  createdBlock: number,
+  signal?: AbortSignal,
+): Promise<TokenDetails> {
+  const client = makeClient(network, signal);
+  const target = getAddress(address);
+  const [[pausedRes, capRes, policyRes, decimalsRes, quoteRes], block] = await Promise.all([
+    aggregate(client, network.precompiles, [
+      { target, callData: pausedCallData },
+      { target, callData: supplyCapCallData },
+      { target, callData: transferPolicyIdCallData },
+      { target, callData: decimalsCallData },
+      { target, callData: quoteTokenCallData },
+    ]),
+    createdBlock > 0 ? client.getBlock({ blockNumber: BigInt(createdBlock) }).catch(() => null) : null,
+  ]);
+  signal?.throwIfAborted();
+  return {
+    paused: decodeOrNull(pausedRes, (data) => decodeFunctionResult({ abi: tip20Abi, functionName: "paused", data })),
+    supplyCap: decodeOrNull(capRes, (data) => decodeFunctionResult({ abi: tip20Abi, functionName: "supplyCap", data })),
+    transferPolicyId: decodeOrNull(policyRes, (data) =>
+      decodeFunctionResult({ abi: tip20Abi, functionName: "transferPolicyId", data }),
+    ),
+    decimals: decodeOrNull(decimalsRes, (data) => decodeFunctionResult({ abi: tip20Abi, functionName: "decimals", data })),
+    quoteToken: decodeAddress(quoteRes, "quoteToken"),
+    createdAt: block ? Number(block.timestamp) : null,
+  };
+}
+
+// ── Stablecoin DEX liquidity ──────────────────────────────────────
+
+/** Top-of-book state of the token/quoteToken pair on the stablecoin DEX. */
+export interface PairLiquidity {
+  base: string;
+  quote: string;
+  bestBidTick: number | null;
+  bestAskTick: number | null;
+  /** Base-token liquidity resting at the best bid, in whole units. */
+  bidLiquidity: number;
+  /** Base-token liquidity resting at the best ask, in whole units. */
+  askLiquidity: number;
+  /** Quote tokens per base token at the midpoint of the best bid and ask, if both sides exist. */
+  midPrice: number | null;
+}
+
+/** Ticks are offsets from parity in units of 1 / PRICE_SCALE. */
+const PRICE_SCALE = 100_000;
+
+export function tickToPrice(tick: number): number {
+  return (PRICE_SCALE + tick) / PRICE_SCALE;
+}
+
+async function batchFetchPairLiquidity(
+  client: Client,
+  precompiles: NetworkConfig["precompiles"],
+  pairs: { base: Address; quote: Address; decimals: number }[],
+  signal?: AbortSignal,
+): Promise<Map<string, PairLiquidity>> {
+  const result = new Map<string, PairLiquidity>();
+  if (pairs.length === 0) return result;
+  const dex = precompiles.STABLECOIN_DEX;
+
+  // 1. Resolve the orderbook key of every pair
+  const keyResults = await aggregate(
+    client,
+    precompiles,
+    pairs.map((p) => ({
+      target: dex,
+      callData: encodeFunctionData({ abi: stablecoinDexAbi, functionName: "pairKey", args: [p.base, p.quote] }),
+    })),
+  );
+  signal?.throwIfAborted();
+  const keyed: { pair: (typeof pairs)[number]; key: `0x${string}` }[] = [];
+  keyResults.forEach((r, i) => {
+    if (!r.success || r.returnData.length <= 2) return;
+    try {
+      const key = decodeFunctionResult({ abi: stablecoinDexAbi, functionName: "pairKey", data: r.returnData });
+      keyed.push({ pair: pairs[i], key });
+    } catch {
+      // Undecodable key — skip the pair rather than the whole batch
+    }
+  });
+
+  // 2. Read best bid/ask ticks of each book
+  const bookResults = await aggregate(
+    client,
+    precompiles,
+    keyed.map(({ key }) => ({
+      target: dex,
+      callData: encodeFunctionData({ abi: stablecoinDexAbi, functionName: "books", args: [key] }),
+    })),
+  );
+  signal?.throwIfAborted();
+  const books: { pair: (typeof pairs)[number]; bestBidTick: number; bestAskTick: number }[] = [];
+  bookResults.forEach((r, i) => {
+    if (!r.success || r.returnData.length <= 2) return;
+    try {
+      const book = decodeFunctionResult({ abi: stablecoinDexAbi, functionName: "books", data: r.returnData });
+      // Books that were never created come back with a zero base address
+      if (book.base === zeroAddress) return;
+      books.push({ pair: keyed[i].pair, bestBidTick: book.bestBidTick, bestAskTick: book.bestAskTick });
+    } catch {
+      // Undecodable book — treat as no liquidity
+    }
+  });
+
+  // 3. Read resting liquidity at both best ticks
+  const levelResults = await aggregate(
+    client,
+    precompiles,
+    books.flatMap(({ pair, bestBidTick, bestAskTick }) => [
+      {
+        target: dex,
+        callData: encodeFunctionData({ abi: stablecoinDexAbi, functionName: "getTickLevel", args: [pair.base, bestBidTick, true] }),
+      },
+      {
+        target: dex,
+        callData: encodeFunctionData({ abi: stablecoinDexAbi, functionName: "getTickLevel", args: [pair.base, bestAskTick, false] }),
+      },
+    ]),
+  );
+  signal?.throwIfAborted();
+  // Levels hold base-token amounts, in the base token's own decimals
+  function levelLiquidity(r: CallResult, decimals: number): number {
+    if (!r.success || r.returnData.length <= 2) return 0;
+    try {
+      const [, , total] = decodeFunctionResult({ abi: stablecoinDexAbi, functionName: "getTickLevel", data: r.returnData });
+      return toUnits(total, decimals);
+    } catch {
+      return 0;
     }
   }
+
+  books.forEach(({ pair, bestBidTick, bestAskTick }, i) => {
+    const bidLiquidity = levelLiquidity(levelResults[2 * i], pair.decimals);
+    const askLiquidity = levelLiquidity(levelResults[2 * i + 1], pair.decimals);
+    const bidTick = bidLiquidity > 0 ? bestBidTick : null;
+    const askTick = askLiquidity > 0 ? bestAskTick : null;
+    result.set(pair.base.toLowerCase(), {
+      base: pair.base,
+      quote: pair.quote,
+      bestBidTick: bidTick,
+      bestAskTick: askTick,
+      bidLiquidity,
+      askLiquidity,
+      midPrice: bidTick !== null && askTick !== null ? (tickToPrice(bidTick) + tickToPrice(askTick)) / 2 : null,
+    });
+  });
   return result;
 }
 
-// ── Tree building ─────────────────────────────────────────────────
+/**
+ * Read top-of-book DEX liquidity for each token against its quote token.
+ * Tokens without a book (or the root) are absent from the result.
+ * Rejects once `signal` aborts, so a superseded read never resolves.
+ */
+export async function fetchPairLiquidity(
+  network: NetworkConfig,
+  tokens: Pick<TokenInfo, "address" | "quoteToken" | "decimals">[],
+  signal?: AbortSignal,
+): Promise<Map<string, PairLiquidity>> {
+  const client = makeClient(network, signal);
+  const pairs = tokens
+    .filter((t) => t.quoteToken.toLowerCase() !== zeroAddress.toLowerCase())
+    .map((t) => ({ base: getAddress(t.address), quote: getAddress(t.quoteToken), decimals: t.decimals }));
+  return batchFetchPairLiquidity(client, network.precompiles, pairs, signal);
+}
 
-function countDescendants(node: TokenNode): number {
-  let count = 1;
-  for (const child of node.children) count += countDescendants(child);
-  return count;
+/** Total liquidity resting at the top of both sides of the book, in base-token units. */
+export function pairDepth(liq: PairLiquidity | undefined): number {
+  return liq ? liq.bidLiquidity + liq.askLiquidity : 0;
 }
 
-/** Build a tree from flat token list, optionally filtering by minTVL. */
-export function buildTree(tokens: TokenInfo[], minTvl: number = 0): { root: TokenNode; tokenCount: number; visibleCount: number } {
+// ── Tree building ─────────────────────────────────────────────────
+
+/**
+ * Build a tree from flat token list, optionally filtering by minTVL (in PathUSD)
+ * and a `matches` predicate; ancestors of kept tokens stay in to keep the tree connected.
+ * Without `prices`, tokens are valued with the static FX table.
+ */
+export function buildTree(
+  tokens: TokenInfo[],
+  minTvl: number = 0,
+  prices: Map<string, TokenPrice> = computePrices(tokens),
+  matches: ((t: TokenInfo) => boolean) | null = null,
+): { root: TokenNode; tokenCount: number; visibleCount: number } {
   // Index all tokens
   const byAddr = new Map<string, TokenInfo>();
   for (const t of tokens) byAddr.set(t.address.toLowerCase(), t);
 
-  // Determine which tokens survive the TVL filter.
+  const priceOf = (t: TokenInfo): TokenPrice => prices.get(t.address.toLowerCase()) ?? { price: 1, source: "unknown" };
+
+  // Determine which tokens survive the TVL floor and the `matches` filter.
   // A token is visible if:
-  //   1. Its totalSupply >= minTvl, OR
+  //   1. Its TVL >= minTvl and it matches the filter, OR
   //   2. It is the quoteToken (ancestor) of any visible token
   const visible = new Set<string>();
 
@@ -121,13 +482,15 @@ export function buildTree(tokens: TokenInfo[], minTvl: number = 0): { root: Toke
     }
   }
 
-  if (minTvl <= 0) {
+  if (minTvl <= 0 && !matches) {
     for (const t of tokens) visible.add(t.address.toLowerCase());
   } else {
-    // Pass 1: mark tokens meeting the threshold
+    // Pass 1: mark tokens meeting the threshold and the filter
     const meetsThreshold = new Set<string>();
     for (const t of tokens) {
-      if (t.totalSupply >= minTvl) meetsThreshold.add(t.address.toLowerCase());
+      if (minTvl > 0 && toUnits(t.totalSupply, t.decimals) * priceOf(t).price < minTvl) continue;
+      if (matches && !matches(t)) continue;
+      meetsThreshold.add(t.address.toLowerCase());
     }
     // Pass 2: walk ancestors of each threshold-meeting token to keep the tree connected
     for (const addr of meetsThreshold) {
@@ -146,13 +509,25 @@ export function buildTree(tokens: TokenInfo[], minTvl: number = 0): { root: Toke
   const nodeMap = new Map<string, TokenNode>();
   for (const t of tokens) {
     if (!visible.has(t.address.toLowerCase())) continue;
+    const { price, source } = priceOf(t);
     nodeMap.set(t.address.toLowerCase(), {
       address: t.address,
       name: t.name,
       symbol: t.symbol,
       currency: t.currency,
       quoteToken: t.quoteToken,
+      nextQuoteToken: t.nextQuoteToken,
+      quoteHistory: t.quoteHistory,
+      createdBlock: t.createdBlock,
       totalSupply: t.totalSupply,
+      decimals: t.decimals,
+      admin: t.admin,
+      salt: t.salt,
+      price,
+      priceSource: source,
+      tvl: toUnits(t.totalSupply, t.decimals) * price,
+      subtreeTvl: 0,
+      descendantCount: 0,
       children: [],
     });
   }
@@ -175,45 +550,250 @@ export function buildTree(tokens: TokenInfo[], minTvl: number = 0): { root: Toke
       symbol: "ROOT",
       currency: "USD",
       quoteToken: zeroAddress,
-      totalSupply: 0,
+      nextQuoteToken: null,
+      quoteHistory: [],
+      createdBlock: 0,
+      totalSupply: 0n,
+      decimals: DEFAULT_DECIMALS,
+      price: 1,
+      priceSource: "unknown",
+      tvl: 0,
+      subtreeTvl: 0,
+      descendantCount: 0,
       children: [...nodeMap.values()],
     };
   }
 
-  // Sort children: largest subtrees first
-  function sortChildren(node: TokenNode) {
-    node.children.sort((a, b) => {
-      // Sort by subtree TVL, then by descendant count
-      const tvlDiff = subtreeTvl(b) - subtreeTvl(a);
-      if (Math.abs(tvlDiff) > 0.01) return tvlDiff;
-      return countDescendants(b) - countDescendants(a);
+  finalizeSubtree(rootNode);
+
+  return { root: rootNode, tokenCount: byAddr.size, visibleCount: nodeMap.size };
+}
+
+/**
+ * Fill in subtree aggregates bottom-up in a single pass, then sort each
+ * node's children largest subtree first (by TVL, then descendant count).
+ */
+function finalizeSubtree(node: TokenNode) {
+  let tvl = node.tvl;
+  let count = 0;
+  for (const c of node.children) {
+    finalizeSubtree(c);
+    tvl += c.subtreeTvl;
+    count += 1 + c.descendantCount;
+  }
+  node.subtreeTvl = tvl;
+  node.descendantCount = count;
+  node.children.sort((a, b) => {
+    const tvlDiff = b.subtreeTvl - a.subtreeTvl;
+    if (Math.abs(tvlDiff) > 0.01) return tvlDiff;
+    return b.descendantCount - a.descendantCount;
+  });
+}
+
+// ── Log scanning ──────────────────────────────────────────────────
+
+/**
+ * Run a log query over [from, to], bisecting the range when the RPC rejects it
+ * as too large. Any other error (after the transport's retries) is rethrown so
+ * the range can be recorded as failed rather than silently empty.
+ */
+async function getLogsBisected<T>(from: number, to: number, query: (from: number, to: number) => Promise<T[]>): Promise<T[]> {
+  try {
+    return await query(from, to);
+  } catch (err: unknown) {
+    const errMsg = err instanceof Error ? err.message : String(err);
+    if (from < to && (errMsg.includes("max block range") || errMsg.includes("max results"))) {
+      const mid = Math.floor((from + to) / 2);
+      const a = await getLogsBisected(from, mid, query);
+      const b = await getLogsBisected(mid + 1, to, query);
+      return [...a, ...b];
+    }
+    throw err;
+  }
+}
+
+type CreatedToken = Omit<TokenInfo, "totalSupply" | "decimals" | "nextQuoteToken" | "quoteHistory">;
+
+/** Fetch TokenCreated logs in [from, to]. */
+function fetchCreatedTokens(client: Client, network: NetworkConfig, from: number, to: number): Promise<CreatedToken[]> {
+  return getLogsBisected(from, to, async (lo, hi) => {
+    const logs = await client.getLogs({
+      address: network.precompiles.TIP20_FACTORY,
+      event: tip20FactoryAbi[1],
+      fromBlock: BigInt(lo),
+      toBlock: BigInt(hi),
+    });
+    return logs.map((log) => {
+      const args = log.args as {
+        token: Address;
+        name: string;
+        symbol: string;
+        currency: string;
+        quoteToken: Address;
+        admin: Address;
+        salt: `0x${string}`;
+      };
+      return {
+        address: getAddress(args.token),
+        name: args.name,
+        symbol: args.symbol,
+        currency: args.currency,
+        quoteToken: getAddress(args.quoteToken),
+        createdBlock: Number(log.blockNumber),
+        admin: getAddress(args.admin),
+        salt: args.salt,
+      };
+    });
+  });
+}
+
+/** A completed quote-token change, as emitted by the token itself. */
+export interface QuoteTokenUpdate {
+  token: string;
+  quoteToken: string;
+  blockNumber: number;
+}
+
+const quoteTokenUpdateEvent = tip20Abi.find((item) => item.type === "event" && item.name === "QuoteTokenUpdate")!;
+
+/**
+ * Fetch QuoteTokenUpdate logs in [from, to]. They are emitted by each token
+ * rather than the factory, so the query is not address-filtered; callers only
+ * apply updates to tokens they know.
+ */
+function fetchQuoteTokenUpdates(client: Client, from: number, to: number): Promise<QuoteTokenUpdate[]> {
+  return getLogsBisected(from, to, async (lo, hi) => {
+    const logs = await client.getLogs({
+      event: quoteTokenUpdateEvent,
+      fromBlock: BigInt(lo),
+      toBlock: BigInt(hi),
     });
-    node.children.forEach(sortChildren);
+    return logs.map((log) => ({
+      token: getAddress(log.address),
+      quoteToken: getAddress((log.args as { newQuoteToken: Address }).newQuoteToken),
+      blockNumber: Number(log.blockNumber),
+    }));
+  });
+}
+
+function withState(raw: CreatedToken[], states: Map<string, TokenState>): TokenInfo[] {
+  return raw.map((t) => {
+    const st = states.get(t.address.toLowerCase());
+    return {
+      ...t,
+      quoteToken: st?.quoteToken ?? t.quoteToken,
+      nextQuoteToken: st?.nextQuoteToken ?? null,
+      quoteHistory: [{ quoteToken: t.quoteToken, blockNumber: t.createdBlock }],
+      totalSupply: st?.totalSupply ?? 0n,
+      decimals: st?.decimals ?? DEFAULT_DECIMALS,
+    };
+  });
+}
+
+/** Group quote-token updates by lowercased token address, oldest first. */
+export function groupQuoteUpdates(updates: QuoteTokenUpdate[], into = new Map<string, QuoteTokenChange[]>()): Map<string, QuoteTokenChange[]> {
+  for (const u of updates) {
+    const key = u.token.toLowerCase();
+    const list = into.get(key) ?? [];
+    if (!list.some((c) => c.blockNumber === u.blockNumber && c.quoteToken === u.quoteToken)) {
+      list.push({ quoteToken: u.quoteToken, blockNumber: u.blockNumber });
+      list.sort((a, b) => a.blockNumber - b.blockNumber);
+    }
+    into.set(key, list);
   }
-  sortChildren(rootNode);
+  return into;
+}
 
-  return { root: rootNode, tokenCount: byAddr.size, visibleCount: nodeMap.size };
+/**
+ * Merge known updates into each token's parent history (creation-time quote
+ * token first). A token that gained an update is moved under the newest quote
+ * token, which also completes any matching pending change.
+ */
+export function applyQuoteUpdates(tokens: TokenInfo[], updates: Map<string, QuoteTokenChange[]>): TokenInfo[] {
+  if (updates.size === 0) return tokens;
+  return tokens.map((t) => {
+    const changes = updates.get(t.address.toLowerCase());
+    if (!changes) return t;
+    const [created, ...known] = t.quoteHistory;
+    const fresh = changes.filter((c) => !known.some((k) => k.blockNumber === c.blockNumber && k.quoteToken === c.quoteToken));
+    if (fresh.length === 0) return t;
+    const merged = [...known, ...fresh].sort((a, b) => a.blockNumber - b.blockNumber);
+    const latest = merged[merged.length - 1].quoteToken;
+    return {
+      ...t,
+      quoteToken: latest,
+      nextQuoteToken: t.nextQuoteToken === latest ? null : t.nextQuoteToken,
+      quoteHistory: [created, ...merged],
+    };
+  });
 }
 
-function subtreeTvl(node: TokenNode): number {
-  let sum = node.totalSupply;
-  for (const c of node.children) sum += subtreeTvl(c);
-  return sum;
+/**
+ * The token list as it stood at `block`: later tokens are dropped, parents are
+ * rewound through `quoteHistory`, and state read at that block is applied.
+ * Tokens without an entry in `states` get a zero supply.
+ */
+export function tokensAsOf(tokens: TokenInfo[], block: number, states: Map<string, TokenState>): TokenInfo[] {
+  const out: TokenInfo[] = [];
+  for (const t of tokens) {
+    if (t.createdBlock > block) continue;
+    const history = t.quoteHistory.filter((c) => c.blockNumber <= block);
+    const st = states.get(t.address.toLowerCase());
+    out.push({
+      ...t,
+      quoteToken: st?.quoteToken ?? history[history.length - 1]?.quoteToken ?? t.quoteToken,
+      nextQuoteToken: st?.nextQuoteToken ?? null,
+      quoteHistory: history,
+      totalSupply: st?.totalSupply ?? 0n,
+    });
+  }
+  return out;
+}
+
+// ── Block times ───────────────────────────────────────────────────
+
+/** Timestamp of a block, in seconds since epoch. */
+export async function fetchBlockTimestamp(network: NetworkConfig, blockNumber: number, signal?: AbortSignal): Promise<number> {
+  const block = await makeClient(network, signal).getBlock({ blockNumber: BigInt(blockNumber) });
+  return Number(block.timestamp);
+}
+
+/** Last block in [0, latestBlock] produced at or before `timestamp` (seconds), found by bisection. */
+export async function findBlockAt(
+  network: NetworkConfig,
+  timestamp: number,
+  latestBlock: number,
+  signal?: AbortSignal,
+): Promise<number> {
+  const client = makeClient(network, signal);
+  const timeOf = async (n: number) => Number((await client.getBlock({ blockNumber: BigInt(n) })).timestamp);
+  let lo = 0;
+  let hi = latestBlock;
+  if ((await timeOf(hi)) <= timestamp) return hi;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if ((await timeOf(mid)) <= timestamp) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
 }
 
 // ── Data fetching ─────────────────────────────────────────────────
 
 /** Fetch genesis (pre-deployed) tokens including supply */
-export async function fetchGenesisTokens(network: NetworkConfig): Promise<TokenInfo[]> {
-  const client = makeClient(network);
+export async function fetchGenesisTokens(network: NetworkConfig, signal?: AbortSignal): Promise<TokenInfo[]> {
+  const client = makeClient(network, signal);
   const results: TokenInfo[] = [];
   for (const addr of network.genesisTokens) {
-    const [name, symbol, currency, quoteToken, totalSupply] = await Promise.all([
+    signal?.throwIfAborted();
+    const [name, symbol, currency, quoteToken, nextQuoteToken, totalSupply, decimals] = await Promise.all([
       client.readContract({ address: addr, abi: tip20Abi, functionName: "name" }),
       client.readContract({ address: addr, abi: tip20Abi, functionName: "symbol" }),
       client.readContract({ address: addr, abi: tip20Abi, functionName: "currency" }),
       client.readContract({ address: addr, abi: tip20Abi, functionName: "quoteToken" }),
+      client.readContract({ address: addr, abi: tip20Abi, functionName: "nextQuoteToken" }).catch(() => zeroAddress),
       client.readContract({ address: addr, abi: tip20Abi, functionName: "totalSupply" }),
+      client.readContract({ address: addr, abi: tip20Abi, functionName: "decimals" }).catch(() => DEFAULT_DECIMALS),
     ]);
     results.push({
       address: getAddress(addr),
@@ -221,97 +801,180 @@ export async function fetchGenesisTokens(network: NetworkConfig): Promise<TokenI
       symbol: symbol as string,
       currency: currency as string,
       quoteToken: getAddress(quoteToken as Address),
-      totalSupply: parseFloat(formatUnits(totalSupply as bigint, 6)),
+      nextQuoteToken: nextQuoteToken === zeroAddress ? null : getAddress(nextQuoteToken as Address),
+      quoteHistory: [{ quoteToken: getAddress(quoteToken as Address), blockNumber: 0 }],
+      createdBlock: 0,
+      totalSupply: totalSupply as bigint,
+      decimals: decimals as number,
     });
   }
+  signal?.throwIfAborted();
   return results;
 }
 
+/** Inclusive block range. */
+export interface BlockRange {
+  from: number;
+  to: number;
+}
+
+export interface StreamOptions {
+  /** First block to scan (inclusive). Defaults to 0; set to resume from a cached scan. */
+  fromBlock?: number;
+  /** Scan exactly these ranges instead of `fromBlock` to the head, e.g. to retry failed ones. */
+  ranges?: BlockRange[];
+  /** Receives QuoteTokenUpdate events found in each scanned range, for any token. */
+  onQuoteUpdates?: (updates: QuoteTokenUpdate[]) => void;
+  /** Receives ranges that still failed after retries; their tokens are not reported. */
+  onRangeError?: (range: BlockRange, error: unknown) => void;
+  /**
+   * Stops the scan: no callback fires once it aborts, and the returned
+   * promise rejects with the abort reason.
+   */
+  signal?: AbortSignal;
+}
+
+/** Split [from, to] into CHUNK-sized ranges. */
+function chunkRanges(from: number, to: number): BlockRange[] {
+  const CHUNK = 100_000;
+  const ranges: BlockRange[] = [];
+  for (let start = from; start <= to; start += CHUNK) {
+    ranges.push({ from: start, to: Math.min(start + CHUNK - 1, to) });
+  }
+  return ranges;
+}
+
 /**
- * Stream factory tokens with totalSupply fetched via multicall per batch.
+ * Stream factory tokens with their current state (supply, live quote token)
+ * fetched via multicall per batch. `onDone` receives the last block included
+ * in the scan (the chain head, or the end of the last explicit range).
  */
 export async function streamFactoryTokens(
   network: NetworkConfig,
   onBatch: (newTokens: TokenInfo[], progress: string) => void,
-  onDone: () => void,
+  onDone: (latestBlock: number) => void,
+  options: StreamOptions = {},
 ): Promise<void> {
-  const client = makeClient(network);
-  const blockNumber = await client.getBlockNumber();
-  const latest = Number(blockNumber);
-
-  const CHUNK = 100_000;
-  const ranges: [number, number][] = [];
-  for (let start = 0; start <= latest; start += CHUNK) {
-    ranges.push([start, Math.min(start + CHUNK - 1, latest)]);
+  const { signal } = options;
+  const client = makeClient(network, signal);
+  let ranges: BlockRange[];
+  let latest: number;
+  if (options.ranges) {
+    ranges = options.ranges;
+    latest = Math.max(0, ...ranges.map((r) => r.to));
+  } else {
+    latest = Number(await client.getBlockNumber());
+    ranges = chunkRanges(options.fromBlock ?? 0, latest);
   }
 
   let totalFetched = 0;
-
-  async function fetchRange(from: number, to: number): Promise<{ address: Address; name: string; symbol: string; currency: string; quoteToken: Address }[]> {
-    try {
-      const logs = await client.getLogs({
-        address: network.precompiles.TIP20_FACTORY,
-        event: tip20FactoryAbi[1],
-        fromBlock: BigInt(from),
-        toBlock: BigInt(to),
-      });
-      return logs.map((log) => {
-        const args = log.args as { token: Address; name: string; symbol: string; currency: string; quoteToken: Address };
-        return {
-          address: getAddress(args.token),
-          name: args.name,
-          symbol: args.symbol,
-          currency: args.currency,
-          quoteToken: getAddress(args.quoteToken),
-        };
-      });
-    } catch (err: unknown) {
-      const errMsg = err instanceof Error ? err.message : String(err);
-      if (errMsg.includes("max block range") || errMsg.includes("max results")) {
-        const mid = Math.floor((from + to) / 2);
-        const a = await fetchRange(from, mid);
-        const b = await fetchRange(mid + 1, to);
-        return [...a, ...b];
-      }
-      console.error(`Error fetching ${from}-${to}:`, errMsg);
-      return [];
-    }
-  }
+  let failedCount = 0;
 
   const CONCURRENCY = 4;
   let rangeIdx = 0;
 
   async function worker(): Promise<void> {
-    while (rangeIdx < ranges.length) {
+    while (rangeIdx < ranges.length && !signal?.aborted) {
       const idx = rangeIdx++;
-      const [from, to] = ranges[idx];
-
-      // 1. Fetch events
-      const raw = await fetchRange(from, to);
-      if (raw.length === 0) {
-        totalFetched += 0;
-        onBatch([], `Blocks ${from.toLocaleString()}-${to.toLocaleString()} · ${totalFetched.toLocaleString()} tokens · ${Math.round(((idx + 1) / ranges.length) * 100)}%`);
-        continue;
+      const range = ranges[idx];
+      const { from, to } = range;
+
+      let tokens: TokenInfo[] = [];
+      try {
+        // 1. Fetch events
+        const [raw, updates] = await Promise.all([
+          fetchCreatedTokens(client, network, from, to),
+          fetchQuoteTokenUpdates(client, from, to),
+        ]);
+
+        // 2. Batch-fetch current supply and quote token via multicall
+        if (raw.length > 0) {
+          const { states, failed } = await batchFetchTokenState(client, network.precompiles, raw.map((t) => t.address as Address), true);
+          if (failed.length > 0) throw new Error(`Token state unavailable for ${failed.length} of ${raw.length} tokens`);
+
+          // 3. Merge into TokenInfo
+          tokens = withState(raw, states);
+        }
+        // Reported only once the whole range succeeded, so a retry does not double-count
+        if (updates.length > 0 && !signal?.aborted) options.onQuoteUpdates?.(updates);
+      } catch (err) {
+        if (signal?.aborted) return;
+        failedCount++;
+        console.error(`Blocks ${from}-${to} failed:`, err);
+        options.onRangeError?.(range, err);
       }
 
-      // 2. Batch-fetch totalSupply via multicall
-      const addresses = raw.map((t) => t.address);
-      const supplies = await batchFetchSupplies(client, network.precompiles, addresses);
-
-      // 3. Merge into TokenInfo
-      const tokens: TokenInfo[] = raw.map((t) => ({
-        ...t,
-        address: t.address,
-        quoteToken: t.quoteToken,
-        totalSupply: supplies.get(t.address.toLowerCase()) ?? 0,
-      }));
-
+      if (signal?.aborted) return;
       totalFetched += tokens.length;
-      onBatch(tokens, `Blocks ${from.toLocaleString()}-${to.toLocaleString()} · ${totalFetched.toLocaleString()} tokens · ${Math.round(((idx + 1) / ranges.length) * 100)}%`);
+      const failedNote = failedCount > 0 ? ` · ${failedCount} failed` : "";
+      onBatch(tokens, `Blocks ${from.toLocaleString()}-${to.toLocaleString()} · ${totalFetched.toLocaleString()} tokens${failedNote} · ${Math.round(((idx + 1) / ranges.length) * 100)}%`);
     }
   }
 
   const workers = Array.from({ length: CONCURRENCY }, () => worker());
   await Promise.all(workers);
-  onDone();
+  signal?.throwIfAborted();
+  onDone(latest);
+}
+
+export interface WatchOptions {
+  /** How often to poll for new blocks, in ms. */
+  pollingInterval?: number;
+  /** Receives QuoteTokenUpdate events from new blocks. */
+  onQuoteUpdates?: (updates: QuoteTokenUpdate[]) => void;
+  /** Stops watching; a scan already in flight reports nothing once this aborts. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Poll for new blocks after `fromBlock` and report tokens created in them.
+ * `onBlock` fires for every new head, `onTokens` only when a block range
+ * contained TokenCreated events. Returns a function that stops watching.
+ */
+export function watchFactoryTokens(
+  network: NetworkConfig,
+  fromBlock: number,
+  onTokens: (newTokens: TokenInfo[]) => void,
+  onBlock: (blockNumber: number) => void,
+  options: WatchOptions = {},
+): () => void {
+  const { signal } = options;
+  const client = makeClient(network, signal);
+  let nextBlock = fromBlock;
+  let busy = false;
+
+  const unwatch = client.watchBlockNumber({
+    pollingInterval: options.pollingInterval ?? 4_000,
+    onBlockNumber: async (blockNumber) => {
+      const head = Number(blockNumber);
+      // A slow scan is caught up by the next tick, since nextBlock only advances on success
+      if (busy || head < nextBlock || signal?.aborted) return;
+      busy = true;
+      try {
+        const [raw, updates] = await Promise.all([
+          fetchCreatedTokens(client, network, nextBlock, head),
+          fetchQuoteTokenUpdates(client, nextBlock, head),
+        ]);
+        if (raw.length > 0) {
+          const { states, failed } = await batchFetchTokenState(client, network.precompiles, raw.map((t) => t.address as Address), true);
+          if (failed.length > 0) throw new Error(`Token state unavailable for ${failed.length} new tokens`);
+          if (signal?.aborted) return;
+          onTokens(withState(raw, states));
+        }
+        if (signal?.aborted) return;
+        if (updates.length > 0) options.onQuoteUpdates?.(updates);
+        nextBlock = head + 1;
+        onBlock(head);
+      } catch (err) {
+        if (signal?.aborted) return;
+        // nextBlock is unchanged, so the next tick retries the same range
+        console.error(`Live scan of blocks ${nextBlock}-${head} failed:`, err);
+      } finally {
+        busy = false;
+      }
+    },
+    onError: (err) => console.error("Block watcher error:", err),
+  });
+  signal?.addEventListener("abort", unwatch, { once: true });
+  return unwatch;
 }
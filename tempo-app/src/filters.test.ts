@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { zeroAddress } from "viem";
+import type { TokenInfo } from "./fetchTokens";
+import { compileFilter, parseFilter, serializeFilter, type FilterGroup, type FilterSpec } from "./filters";
+
+const addr = (n: number) => `0x20c0${n.toString(16).padStart(36, "0")}`;
+
+function token(n: number, quote: number | null, overrides: Partial<TokenInfo> = {}): TokenInfo {
+  const quoteToken = quote === null ? zeroAddress : addr(quote);
+  return {
+    address: addr(n),
+    name: `Token ${n}`,
+    symbol: `T${n}`,
+    currency: "USD",
+    quoteToken,
+    nextQuoteToken: null,
+    quoteHistory: [{ quoteToken, blockNumber: 0 }],
+    createdBlock: n,
+    totalSupply: 0n,
+    decimals: 6,
+    ...overrides,
+  };
+}
+
+// pathUSD ← alphaUSD ← betaEUR ← gammaEUR
+const tokens = [
+  token(0, null, { symbol: "pathUSD", name: "Path USD" }),
+  token(1, 0, { symbol: "alphaUSD", totalSupply: 5_000_000n }),
+  token(2, 1, { symbol: "betaEUR", currency: "EUR", totalSupply: 20_000_000n }),
+  token(3, 2, { symbol: "gammaEUR", currency: "EUR", totalSupply: 1_000_000_000n, decimals: 9 }),
+];
+
+const group = (rules: FilterGroup["rules"], mode: FilterGroup["mode"] = "include", match: FilterGroup["match"] = "all"): FilterGroup => ({
+  mode,
+  match,
+  rules,
+});
+
+function kept(spec: FilterSpec, list = tokens): string[] {
+  const matches = compileFilter(spec, list);
+  return list.filter((t) => !matches || matches(t)).map((t) => t.symbol);
+}
+
+describe("parseFilter", () => {
+  it("round-trips through a share URL", () => {
+    const spec: FilterSpec = {
+      groups: [
+        group([{ field: "symbol", pattern: "^(alpha|beta)", regex: true }, { field: "supply", min: 1, max: null }], "include", "any"),
+        group([{ field: "currency", pattern: "EUR", regex: false }], "exclude"),
+      ],
+    };
+    const url = new URL("https://example.test/");
+    url.searchParams.set("filter", serializeFilter(spec));
+    expect(parseFilter(new URL(url.toString()).searchParams.get("filter")!)).toEqual(spec);
+  });
+
+  it("rejects malformed input with a readable message", () => {
+    expect(() => parseFilter("{")).toThrow("Filter is not valid JSON");
+    expect(() => parseFilter("{}")).toThrow("Filter must be a list of groups");
+    expect(() => parseFilter(JSON.stringify([group([]), { mode: "keep", match: "all", rules: [] }]))).toThrow(
+      "Malformed filter group at index 1",
+    );
+    expect(() => parseFilter(JSON.stringify([group([{ field: "depth", min: "1", max: null } as never])]))).toThrow(
+      "Malformed filter group at index 0",
+    );
+  });
+
+  it("rejects rules that cannot be applied", () => {
+    expect(() => parseFilter(JSON.stringify([group([{ field: "symbol", pattern: "(", regex: true }])]))).toThrow(
+      /^Invalid symbol rule: /,
+    );
+    expect(() => parseFilter(JSON.stringify([group([{ field: "depth", min: 3, max: 1 }])]))).toThrow(
+      "Invalid depth rule: Minimum is above maximum",
+    );
+  });
+});
+
+describe("compileFilter", () => {
+  it("returns null when no group has rules", () => {
+    expect(compileFilter({ groups: [] }, tokens)).toBeNull();
+    expect(compileFilter({ groups: [group([])] }, tokens)).toBeNull();
+  });
+
+  it("throws on an invalid regex", () => {
+    expect(() => compileFilter({ groups: [group([{ field: "name", pattern: "[", regex: true }])] }, tokens)).toThrow(
+      /^Invalid name rule: /,
+    );
+  });
+
+  it("matches exact text case-insensitively, wildcards on the whole value, and regexes anywhere", () => {
+    expect(kept({ groups: [group([{ field: "symbol", pattern: "ALPHAUSD", regex: false }])] })).toEqual(["alphaUSD"]);
+    expect(kept({ groups: [group([{ field: "symbol", pattern: "*EUR", regex: false }])] })).toEqual(["betaEUR", "gammaEUR"]);
+    expect(kept({ groups: [group([{ field: "symbol", pattern: "eu", regex: false }])] })).toEqual([]);
+    expect(kept({ groups: [group([{ field: "symbol", pattern: "eu", regex: true }])] })).toEqual(["betaEUR", "gammaEUR"]);
+  });
+
+  it("combines rules with all or any", () => {
+    const rules: FilterGroup["rules"] = [
+      { field: "currency", pattern: "EUR", regex: false },
+      { field: "supply", min: 10, max: null },
+    ];
+    expect(kept({ groups: [group(rules, "include", "all")] })).toEqual(["betaEUR"]);
+    expect(kept({ groups: [group(rules, "include", "any")] })).toEqual(["betaEUR", "gammaEUR"]);
+  });
+
+  it("keeps tokens matching every include group and no exclude group", () => {
+    const spec: FilterSpec = {
+      groups: [
+        group([{ field: "supply", min: 1, max: null }]),
+        group([{ field: "symbol", pattern: "gamma*", regex: false }], "exclude"),
+      ],
+    };
+    expect(kept(spec)).toEqual(["alphaUSD", "betaEUR"]);
+    expect(kept({ groups: [group([{ field: "currency", pattern: "USD", regex: false }], "exclude")] })).toEqual([
+      "betaEUR",
+      "gammaEUR",
+    ]);
+  });
+
+  it("reads supplies in each token's decimals and quote tokens by symbol", () => {
+    expect(kept({ groups: [group([{ field: "supply", min: 1, max: 5 }])] })).toEqual(["alphaUSD", "gammaEUR"]);
+    expect(kept({ groups: [group([{ field: "quoteToken", pattern: "betaEUR", regex: false }])] })).toEqual(["gammaEUR"]);
+    expect(kept({ groups: [group([{ field: "quoteToken", pattern: addr(0), regex: false }])] })).toEqual(["alphaUSD"]);
+  });
+
+  it("filters by depth below the root", () => {
+    expect(kept({ groups: [group([{ field: "depth", min: 1, max: 2 }])] })).toEqual(["alphaUSD", "betaEUR"]);
+    expect(kept({ groups: [group([{ field: "depth", min: null, max: 0 }])] })).toEqual(["pathUSD"]);
+  });
+
+  it("terminates on a quote-token cycle", () => {
+    const cycle = [token(10, 11), token(11, 10)];
+    const matches = compileFilter({ groups: [group([{ field: "depth", min: 0, max: null }])] }, cycle)!;
+    expect(cycle.map(matches)).toEqual([true, true]);
+  });
+
+  it("measures depth on a very long quote chain without overflowing the stack", () => {
+    const chain = Array.from({ length: 50_000 }, (_, i) => token(i, i === 0 ? null : i - 1));
+    const matches = compileFilter({ groups: [group([{ field: "depth", min: 49_999, max: null }])] }, chain)!;
+    expect(matches(chain[49_999])).toBe(true);
+    expect(matches(chain[49_998])).toBe(false);
+  });
+});
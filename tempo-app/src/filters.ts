@@ -0,0 +1,223 @@
+import { zeroAddress } from "viem";
+import type { TokenInfo } from "./fetchTokens";
+import { walkQuoteChain } from "./quoteChain";
+import { toUnits } from "./units";
+
+// ── Wildcard helpers ──────────────────────────────────────────────
+
+/** Convert a wildcard pattern (e.g. "A*") to a RegExp that matches the full string. */
+export function wildcardToRegex(pattern: string): RegExp {
+  // Escape regex special chars except *, then convert * to .*
+  const escaped = pattern.replace(/([.+?^${}()|[\]\\])/g, "\\$1").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+export function isWildcard(pattern: string): boolean {
+  return pattern.includes("*");
+}
+
+/** Test if a symbol matches any of the excluded patterns (exact or wildcard). */
+export function matchesExcluded(symbol: string, patterns: string[]): boolean {
+  for (const p of patterns) {
+    if (isWildcard(p)) {
+      if (wildcardToRegex(p).test(symbol)) return true;
+    } else {
+      if (symbol.toLowerCase() === p.toLowerCase()) return true;
+    }
+  }
+  return false;
+}
+
+// ── Filter rules ──────────────────────────────────────────────────
+
+export type TextField = "symbol" | "name" | "address" | "currency" | "admin" | "quoteToken";
+export type RangeField = "createdBlock" | "supply" | "depth";
+export type FilterField = TextField | RangeField;
+
+/**
+ * A text rule matches a wildcard pattern against the whole value (case-insensitive),
+ * or, with `regex`, searches it with a regular expression. A range rule matches
+ * values within its inclusive bounds; a null bound is open.
+ */
+export type FilterRule =
+  | { field: TextField; pattern: string; regex: boolean }
+  | { field: RangeField; min: number | null; max: number | null };
+
+/** Rules combined with AND ("all") or OR ("any"); the group either keeps or drops the tokens it matches. */
+export interface FilterGroup {
+  mode: "include" | "exclude";
+  match: "all" | "any";
+  rules: FilterRule[];
+}
+
+/**
+ * A token is shown when it matches every include group and no exclude group.
+ * Groups without rules are ignored.
+ */
+export interface FilterSpec {
+  groups: FilterGroup[];
+}
+
+export const EMPTY_FILTER: FilterSpec = { groups: [] };
+
+const TEXT_FIELDS: readonly string[] = ["symbol", "name", "address", "currency", "admin", "quoteToken"] satisfies TextField[];
+const RANGE_FIELDS: readonly string[] = ["createdBlock", "supply", "depth"] satisfies RangeField[];
+
+export function isRangeField(field: FilterField): field is RangeField {
+  return RANGE_FIELDS.includes(field);
+}
+
+/** A blank rule for `field`. */
+export function emptyRule(field: FilterField): FilterRule {
+  return isRangeField(field) ? { field, min: null, max: null } : { field, pattern: "", regex: false };
+}
+
+export function countRules(spec: FilterSpec): number {
+  return spec.groups.reduce((n, g) => n + g.rules.length, 0);
+}
+
+/** Why a rule cannot be applied, or null if it is valid. */
+export function validateRule(rule: FilterRule): string | null {
+  if ("pattern" in rule) {
+    if (!rule.pattern) return "Enter a pattern";
+    if (rule.regex) {
+      try {
+        new RegExp(rule.pattern, "i");
+      } catch (err) {
+        return err instanceof Error ? err.message : "Invalid regular expression";
+      }
+    }
+    return null;
+  }
+  if (rule.min === null && rule.max === null) return "Enter a minimum or a maximum";
+  if (rule.min !== null && rule.max !== null && rule.min > rule.max) return "Minimum is above maximum";
+  return null;
+}
+
+function textMatcher(rule: { pattern: string; regex: boolean }): (value: string) => boolean {
+  if (rule.regex) {
+    const re = new RegExp(rule.pattern, "i");
+    return (value) => re.test(value);
+  }
+  if (isWildcard(rule.pattern)) {
+    const re = wildcardToRegex(rule.pattern);
+    return (value) => re.test(value);
+  }
+  const exact = rule.pattern.toLowerCase();
+  return (value) => value.toLowerCase() === exact;
+}
+
+/**
+ * Compile `spec` into a predicate over `tokens`, which supplies quote token
+ * symbols and tree depths. Returns null when the spec has no rules. Throws if a
+ * rule is invalid (see validateRule).
+ */
+export function compileFilter(spec: FilterSpec, tokens: TokenInfo[]): ((t: TokenInfo) => boolean) | null {
+  const groups = spec.groups.filter((g) => g.rules.length > 0);
+  if (groups.length === 0) return null;
+  for (const g of groups) {
+    for (const r of g.rules) {
+      const error = validateRule(r);
+      if (error) throw new Error(`Invalid ${r.field} rule: ${error}`);
+    }
+  }
+
+  const byAddr = new Map(tokens.map((t) => [t.address.toLowerCase(), t]));
+  const depths = new Map<string, number>();
+  const parentOf = (key: string) => {
+    const parent = byAddr.get(key)?.quoteToken.toLowerCase();
+    return parent && parent !== zeroAddress && byAddr.has(parent) ? parent : undefined;
+  };
+  function depthOf(key: string): number {
+    const chain = walkQuoteChain(key, parentOf, (k) => depths.has(k));
+    // The topmost token is either memoized already or the root of its chain
+    let depth = depths.get(chain[chain.length - 1]) ?? 0;
+    depths.set(chain[chain.length - 1], depth);
+    for (let i = chain.length - 2; i >= 0; i--) depths.set(chain[i], ++depth);
+    return depth;
+  }
+
+  function ruleMatcher(rule: FilterRule): (t: TokenInfo) => boolean {
+    if ("pattern" in rule) {
+      const test = textMatcher(rule);
+      switch (rule.field) {
+        case "quoteToken":
+          // By address or by the quote token's symbol
+          return (t) => test(t.quoteToken) || test(byAddr.get(t.quoteToken.toLowerCase())?.symbol ?? "");
+        case "admin":
+          return (t) => test(t.admin ?? "");
+        default: {
+          const field = rule.field;
+          return (t) => test(t[field]);
+        }
+      }
+    }
+    const min = rule.min ?? -Infinity;
+    const max = rule.max ?? Infinity;
+    const inRange = (v: number) => v >= min && v <= max;
+    switch (rule.field) {
+      case "createdBlock":
+        return (t) => inRange(t.createdBlock);
+      case "supply":
+        return (t) => inRange(toUnits(t.totalSupply, t.decimals));
+      case "depth":
+        return (t) => inRange(depthOf(t.address.toLowerCase()));
+    }
+  }
+
+  const compiled = groups.map((g) => {
+    const rules = g.rules.map(ruleMatcher);
+    const test = g.match === "all" ? (t: TokenInfo) => rules.every((r) => r(t)) : (t: TokenInfo) => rules.some((r) => r(t));
+    return { mode: g.mode, test };
+  });
+  const includes = compiled.filter((g) => g.mode === "include");
+  const excludes = compiled.filter((g) => g.mode === "exclude");
+  return (t) => includes.every((g) => g.test(t)) && !excludes.some((g) => g.test(t));
+}
+
+// ── Filter serialization ──────────────────────────────────────────
+
+function isFilterRule(v: unknown): v is FilterRule {
+  const r = v as Record<string, unknown>;
+  if (typeof r !== "object" || r === null || typeof r.field !== "string") return false;
+  if (TEXT_FIELDS.includes(r.field)) return typeof r.pattern === "string" && typeof r.regex === "boolean";
+  const bound = (b: unknown) => b === null || (typeof b === "number" && Number.isFinite(b));
+  return RANGE_FIELDS.includes(r.field) && bound(r.min) && bound(r.max);
+}
+
+function isFilterGroup(v: unknown): v is FilterGroup {
+  const g = v as Record<string, unknown>;
+  return (
+    typeof g === "object" &&
+    g !== null &&
+    (g.mode === "include" || g.mode === "exclude") &&
+    (g.match === "all" || g.match === "any") &&
+    Array.isArray(g.rules) &&
+    g.rules.every(isFilterRule)
+  );
+}
+
+/** Compact JSON, as used in the `?filter=` share parameter and the export's --filter option. */
+export function serializeFilter(spec: FilterSpec): string {
+  return JSON.stringify(spec.groups);
+}
+
+/** Parse serializeFilter output; throws with a readable message if it is malformed. */
+export function parseFilter(text: string): FilterSpec {
+  let groups: unknown;
+  try {
+    groups = JSON.parse(text);
+  } catch {
+    throw new Error("Filter is not valid JSON");
+  }
+  if (!Array.isArray(groups)) throw new Error("Filter must be a list of groups");
+  const bad = groups.findIndex((g) => !isFilterGroup(g));
+  if (bad !== -1) throw new Error(`Malformed filter group at index ${bad}`);
+  for (const g of groups as FilterGroup[]) {
+    for (const r of g.rules) {
+      const error = validateRule(r);
+      if (error) throw new Error(`Invalid ${r.field} rule: ${error}`);
+    }
+  }
+  return { groups: groups as FilterGroup[] };
+}
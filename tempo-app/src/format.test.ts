@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { formatAmount, formatTvl, shortHex } from "./format";
+
+describe("formatAmount", () => {
+  it("abbreviates thousands, millions and billions", () => {
+    expect(formatAmount(1_234)).toBe("1.2K");
+    expect(formatAmount(5_600_000)).toBe("5.6M");
+    expect(formatAmount(7_890_000_000)).toBe("7.9B");
+  });
+
+  it("keeps cents below 1 and floors dust", () => {
+    expect(formatAmount(42.4)).toBe("42");
+    expect(formatAmount(0.05)).toBe("0.05");
+    expect(formatAmount(0.001)).toBe("<0.01");
+    expect(formatAmount(0)).toBe("0");
+  });
+});
+
+describe("formatTvl", () => {
+  it("prefixes a dollar sign, outside the dust marker", () => {
+    expect(formatTvl(1_500_000)).toBe("$1.5M");
+    expect(formatTvl(0.001)).toBe("<$0.01");
+    expect(formatTvl(0)).toBe("$0");
+  });
+});
+
+describe("shortHex", () => {
+  it("keeps the ends of a long value and leaves short ones alone", () => {
+    expect(shortHex("0x20C0000000000000000000000000000000000001")).toBe("0x20C000…000001");
+    expect(shortHex("0x1234")).toBe("0x1234");
+  });
+});
@@ -0,0 +1,22 @@
+// ── Display formatting ────────────────────────────────────────────
+
+/** Compact whole-token amount, e.g. "1.2M", "42", "0.05" or "<0.01". */
+export function formatAmount(n: number): string {
+  if (n >= 1_000_000_000) return `${(n / 1_000_000_000).toFixed(1)}B`;
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
+  if (n >= 1) return n.toFixed(0);
+  if (n >= 0.01) return n.toFixed(2);
+  if (n > 0) return "<0.01";
+  return "0";
+}
+
+/** Compact PathUSD value, e.g. "$1.2M" or "<$0.01". */
+export function formatTvl(n: number): string {
+  return n > 0 && n < 0.01 ? "<$0.01" : `$${formatAmount(n)}`;
+}
+
+/** Long hex value shortened to its first and last few digits. */
+export function shortHex(value: string): string {
+  return value.length > 14 ? `${value.slice(0, 8)}\u2026${value.slice(-6)}` : value;
+}
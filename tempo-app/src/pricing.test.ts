@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { zeroAddress } from "viem";
+import type { PairLiquidity, TokenInfo } from "./fetchTokens";
+import { computePrices, formatFxOverrides, parseFxOverrides, tokenTvl } from "./pricing";
+
+const addr = (n: number) => `0x20c0${n.toString(16).padStart(36, "0")}`;
+
+function token(n: number, quote: number | null, currency: string): TokenInfo {
+  const quoteToken = quote === null ? zeroAddress : addr(quote);
+  return {
+    address: addr(n),
+    name: `Token ${n}`,
+    symbol: `T${n}`,
+    currency,
+    quoteToken,
+    nextQuoteToken: null,
+    quoteHistory: [{ quoteToken, blockNumber: 0 }],
+    createdBlock: 0,
+    totalSupply: 3_000_000n,
+    decimals: 6,
+  };
+}
+
+function book(n: number, quote: number, midPrice: number | null): [string, PairLiquidity] {
+  return [
+    addr(n),
+    { base: addr(n), quote: addr(quote), bestBidTick: 0, bestAskTick: 0, bidLiquidity: 1, askLiquidity: 1, midPrice },
+  ];
+}
+
+describe("computePrices", () => {
+  it("prices roots from the FX table", () => {
+    const prices = computePrices([token(0, null, "USD"), token(1, null, "EUR")]);
+    expect(prices.get(addr(0))).toEqual({ price: 1, source: "fx" });
+    expect(prices.get(addr(1))).toEqual({ price: 1.08, source: "fx" });
+  });
+
+  it("multiplies DEX mid-prices down the quote chain", () => {
+    const tokens = [token(0, null, "USD"), token(1, 0, "EUR"), token(2, 1, "JPY")];
+    const prices = computePrices(tokens, new Map([book(1, 0, 1.1), book(2, 1, 0.006)]));
+    expect(prices.get(addr(1))).toEqual({ price: 1.1, source: "dex" });
+    expect(prices.get(addr(2))!.price).toBeCloseTo(0.0066, 10);
+    expect(prices.get(addr(2))!.source).toBe("dex");
+  });
+
+  it("falls back to the FX rate without a two-sided book", () => {
+    const tokens = [token(0, null, "USD"), token(1, 0, "GBP"), token(2, 0, "jpy")];
+    const prices = computePrices(tokens, new Map([book(1, 0, null)]));
+    expect(prices.get(addr(1))).toEqual({ price: 1.27, source: "fx" });
+    expect(prices.get(addr(2))).toEqual({ price: 0.0067, source: "fx" });
+  });
+
+  it("assumes parity with the quote token for an unknown currency", () => {
+    const tokens = [token(0, null, "EUR"), token(1, 0, "XYZ")];
+    expect(computePrices(tokens).get(addr(1))).toEqual({ price: 1.08, source: "unknown" });
+  });
+
+  it("does not call a DEX price known when its quote token's price is not", () => {
+    const tokens = [token(0, null, "XYZ"), token(1, 0, "USD")];
+    expect(computePrices(tokens, new Map([book(1, 0, 2)])).get(addr(1))).toEqual({ price: 2, source: "unknown" });
+  });
+
+  it("uses FX overrides in place of the default table", () => {
+    const prices = computePrices([token(0, null, "EUR")], new Map(), { EUR: 1.2 });
+    expect(prices.get(addr(0))).toEqual({ price: 1.2, source: "fx" });
+  });
+
+  it("terminates on a quote-token cycle", () => {
+    const tokens = [token(0, 1, "USD"), token(1, 0, "EUR")];
+    const prices = computePrices(tokens, new Map([book(0, 1, 0.9), book(1, 0, 1.1)]));
+    expect(prices.size).toBe(2);
+    for (const p of prices.values()) expect(Number.isFinite(p.price)).toBe(true);
+  });
+});
+
+describe("tokenTvl", () => {
+  it("values the whole-token supply at its price, or at parity without one", () => {
+    const t = token(1, 0, "EUR");
+    expect(tokenTvl(t, new Map([[addr(1), { price: 2, source: "dex" }]]))).toBe(6);
+    expect(tokenTvl(t, new Map())).toBe(3);
+  });
+});
+
+describe("parseFxOverrides", () => {
+  it("reads currency:rate pairs and skips malformed entries", () => {
+    expect(parseFxOverrides(" jpy :0.0068,EUR:1.1,GBP:,CHF:-1,bogus")).toEqual({ JPY: 0.0068, EUR: 1.1 });
+  });
+
+  it("round-trips through formatFxOverrides", () => {
+    const rates = { JPY: 0.0068, EUR: 1.1 };
+    expect(parseFxOverrides(formatFxOverrides(rates))).toEqual(rates);
+  });
+});
@@ -0,0 +1,111 @@
+import { zeroAddress } from "viem";
+import type { PairLiquidity, TokenInfo } from "./fetchTokens";
+import { toUnits } from "./units";
+
+// ── PathUSD pricing ───────────────────────────────────────────────
+
+/**
+ * Static PathUSD value of one unit of each currency. Used only when a token's
+ * book has no two-sided DEX quote; override per deployment or via `?fx=`.
+ */
+export const DEFAULT_FX_RATES: Readonly<Record<string, number>> = {
+  USD: 1,
+  EUR: 1.08,
+  GBP: 1.27,
+  JPY: 0.0067,
+  BRL: 0.18,
+  ARS: 0.001,
+  MXN: 0.055,
+  CAD: 0.73,
+  AUD: 0.66,
+  SGD: 0.74,
+  HKD: 0.128,
+  KRW: 0.00073,
+  INR: 0.012,
+  CHF: 1.13,
+  SEK: 0.095,
+};
+
+/** Where a token's price came from: the DEX mid along its quote chain, the FX table, or neither. */
+export type PriceSource = "dex" | "fx" | "unknown";
+
+export interface TokenPrice {
+  /** PathUSD per whole token. */
+  price: number;
+  source: PriceSource;
+}
+
+/**
+ * Derive each token's PathUSD price by walking its quote chain: a token is
+ * worth its DEX mid-price times its quote token's price. Roots, and tokens
+ * without a two-sided book, fall back to the FX rate of their currency;
+ * tokens in an unknown currency are assumed to trade at parity with their
+ * quote token.
+ */
+export function computePrices(
+  tokens: TokenInfo[],
+  liquidity: Map<string, PairLiquidity> = new Map(),
+  fxRates: Readonly<Record<string, number>> = DEFAULT_FX_RATES,
+): Map<string, TokenPrice> {
+  const byAddr = new Map<string, TokenInfo>();
+  for (const t of tokens) byAddr.set(t.address.toLowerCase(), t);
+
+  const prices = new Map<string, TokenPrice>();
+  const resolving = new Set<string>();
+
+  function fxPrice(t: TokenInfo): TokenPrice | null {
+    const rate = fxRates[t.currency.toUpperCase()];
+    return rate !== undefined ? { price: rate, source: "fx" } : null;
+  }
+
+  function resolve(addr: string): TokenPrice {
+    const cached = prices.get(addr);
+    if (cached) return cached;
+    const t = byAddr.get(addr);
+    if (!t) return { price: 1, source: "unknown" };
+
+    const quoteAddr = t.quoteToken.toLowerCase();
+    let result: TokenPrice;
+    if (quoteAddr === zeroAddress || resolving.has(addr)) {
+      // Root of the tree (or a malformed quote cycle)
+      result = fxPrice(t) ?? { price: 1, source: "unknown" };
+    } else {
+      resolving.add(addr);
+      const quote = resolve(quoteAddr);
+      resolving.delete(addr);
+      const mid = liquidity.get(addr)?.midPrice ?? null;
+      if (mid !== null) {
+        result = { price: mid * quote.price, source: quote.source === "unknown" ? "unknown" : "dex" };
+      } else {
+        result = fxPrice(t) ?? { price: quote.price, source: "unknown" };
+      }
+    }
+    prices.set(addr, result);
+    return result;
+  }
+
+  for (const addr of byAddr.keys()) resolve(addr);
+  return prices;
+}
+
+/** PathUSD value of a token's total supply. */
+export function tokenTvl(t: Pick<TokenInfo, "address" | "totalSupply" | "decimals">, prices: Map<string, TokenPrice>): number {
+  return toUnits(t.totalSupply, t.decimals) * (prices.get(t.address.toLowerCase())?.price ?? 1);
+}
+
+/** Parse an FX override list such as "JPY:0.0068,EUR:1.1". Malformed entries are skipped. */
+export function parseFxOverrides(value: string): Record<string, number> {
+  const rates: Record<string, number> = {};
+  for (const entry of value.split(",")) {
+    const [cur, rate] = entry.split(":");
+    const n = parseFloat(rate);
+    if (cur && Number.isFinite(n) && n > 0) rates[cur.trim().toUpperCase()] = n;
+  }
+  return rates;
+}
+
+export function formatFxOverrides(rates: Record<string, number>): string {
+  return Object.entries(rates)
+    .map(([cur, rate]) => `${cur}:${rate}`)
+    .join(",");
+}
@@ -0,0 +1,26 @@
+// ── Quote-token chains ────────────────────────────────────────────
+
+/**
+ * `key` followed by its ancestors, nearest first, as given by `parentOf`. The
+ * walk ends at a token without a parent, at the first token `known` accepts
+ * (included, so callers can build on a memoized result), or before a token it
+ * already visited, so a malformed quote-token cycle cannot loop forever.
+ * Iterative, so very long chains do not overflow the stack.
+ */
+export function walkQuoteChain(
+  key: string,
+  parentOf: (key: string) => string | undefined,
+  known: (key: string) => boolean = () => false,
+): string[] {
+  const chain = [key];
+  const visited = new Set(chain);
+  let current = key;
+  while (!known(current)) {
+    const parent = parentOf(current);
+    if (parent === undefined || visited.has(parent)) break;
+    chain.push(parent);
+    visited.add(parent);
+    current = parent;
+  }
+  return chain;
+}
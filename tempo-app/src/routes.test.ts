@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { zeroAddress } from "viem";
+import { buildTree, type TokenInfo } from "./fetchTokens";
+import { findRoute, type SwapRoute } from "./routes";
+
+const ROOT = "0x20c0000000000000000000000000000000000000";
+const A = "0x20c0000000000000000000000000000000000001";
+const A1 = "0x20c0000000000000000000000000000000000002";
+const B = "0x20c0000000000000000000000000000000000003";
+const B1 = "0x20c0000000000000000000000000000000000004";
+
+function token(address: string, quoteToken: string): TokenInfo {
+  return {
+    address,
+    name: address.slice(-4),
+    symbol: address.slice(-4),
+    currency: "USD",
+    quoteToken,
+    nextQuoteToken: null,
+    quoteHistory: [{ quoteToken, blockNumber: 0 }],
+    createdBlock: 0,
+    totalSupply: 1_000_000n,
+    decimals: 6,
+  };
+}
+
+// ROOT ← A ← A1, ROOT ← B ← B1
+const { root } = buildTree([token(ROOT, zeroAddress), token(A, ROOT), token(A1, A), token(B, ROOT), token(B1, B)]);
+
+const addresses = (route: SwapRoute) => ({
+  path: route.path.map((n) => n.address),
+  hops: route.hops.map((h) => [h.from.address, h.to.address, h.direction, h.base.address]),
+  lca: route.lca.address,
+});
+
+describe("findRoute", () => {
+  it("goes up to the lowest common ancestor and back down", () => {
+    expect(addresses(findRoute(root, A1, B1)!)).toEqual({
+      path: [A1, A, ROOT, B, B1],
+      hops: [
+        [A1, A, "up", A1],
+        [A, ROOT, "up", A],
+        [ROOT, B, "down", B],
+        [B, B1, "down", B1],
+      ],
+      lca: ROOT,
+    });
+  });
+
+  it("stays on one branch when one token quotes the other", () => {
+    expect(addresses(findRoute(root, A1, A)!)).toEqual({ path: [A1, A], hops: [[A1, A, "up", A1]], lca: A });
+    expect(addresses(findRoute(root, ROOT, B1)!)).toEqual({
+      path: [ROOT, B, B1],
+      hops: [
+        [ROOT, B, "down", B],
+        [B, B1, "down", B1],
+      ],
+      lca: ROOT,
+    });
+  });
+
+  it("needs no hops from a token to itself", () => {
+    expect(addresses(findRoute(root, B, B)!)).toEqual({ path: [B], hops: [], lca: B });
+  });
+
+  it("matches addresses case-insensitively", () => {
+    expect(findRoute(root, A1.toUpperCase().replace("0X", "0x"), B)?.lca.address).toBe(ROOT);
+  });
+
+  it("returns null when a token is not in the tree", () => {
+    expect(findRoute(root, A1, "0x20c00000000000000000000000000000000000ff")).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import type { TokenNode } from "./fetchTokens";
+
+// ── Swap routing through the quote-token tree ─────────────────────
+
+/** One DEX trade between a token and its quote token. */
+export interface RouteHop {
+  from: TokenNode;
+  to: TokenNode;
+  /** "up" sells a token for its quote token, "down" buys a child with its quote token. */
+  direction: "up" | "down";
+  /** The child side of the pair, i.e. the book's base token. */
+  base: TokenNode;
+}
+
+export interface SwapRoute {
+  /** Every token visited, source first and destination last. */
+  path: TokenNode[];
+  hops: RouteHop[];
+  /** Lowest common ancestor of source and destination. */
+  lca: TokenNode;
+}
+
+function ancestry(root: TokenNode, address: string): TokenNode[] | null {
+  const target = address.toLowerCase();
+  const stack: TokenNode[] = [];
+  function walk(node: TokenNode): boolean {
+    stack.push(node);
+    if (node.address.toLowerCase() === target) return true;
+    for (const c of node.children) if (walk(c)) return true;
+    stack.pop();
+    return false;
+  }
+  return walk(root) ? stack : null;
+}
+
+/**
+ * Find the swap route between two tokens: up the quote chain from `from`
+ * to the lowest common ancestor, then down to `to`. Returns null if either
+ * token is not in the tree.
+ */
+export function findRoute(root: TokenNode, from: string, to: string): SwapRoute | null {
+  const up = ancestry(root, from);
+  const down = ancestry(root, to);
+  if (!up || !down) return null;
+
+  let common = 0;
+  while (common < up.length && common < down.length && up[common] === down[common]) common++;
+  const lca = up[common - 1];
+
+  const path = [...up.slice(common - 1).reverse(), ...down.slice(common)];
+  const hops: RouteHop[] = [];
+  for (let i = 0; i + 1 < path.length; i++) {
+    const direction = i < up.length - common ? "up" : "down";
+    hops.push({
+      from: path[i],
+      to: path[i + 1],
+      direction,
+      base: direction === "up" ? path[i] : path[i + 1],
+    });
+  }
+  return { path, hops, lca };
+}
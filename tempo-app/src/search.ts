@@ -0,0 +1,39 @@
+import type { TokenNode } from "./fetchTokens";
+
+// ── Token search ──────────────────────────────────────────────────
+
+export interface SearchResult {
+  token: TokenNode;
+  /** Lower is better; see `matchRank`. */
+  rank: number;
+}
+
+/**
+ * How well a token matches `q` (already lowercased and trimmed), or null for
+ * no match: exact symbol, then symbol prefix, name prefix, symbol substring,
+ * name substring, and finally address prefix.
+ */
+function matchRank(t: TokenNode, q: string): number | null {
+  const symbol = t.symbol.toLowerCase();
+  const name = t.name.toLowerCase();
+  if (symbol === q) return 0;
+  if (symbol.startsWith(q)) return 1;
+  if (name.startsWith(q)) return 2;
+  if (symbol.includes(q)) return 3;
+  if (name.includes(q)) return 4;
+  if (q.length >= 3 && t.address.toLowerCase().startsWith(q)) return 5;
+  return null;
+}
+
+/** Tokens matching `query` by symbol, name or address, best first; ties go to the larger TVL. */
+export function searchTokens(tokens: TokenNode[], query: string, limit = 10): SearchResult[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+  const results: SearchResult[] = [];
+  for (const token of tokens) {
+    const rank = matchRank(token, q);
+    if (rank !== null) results.push({ token, rank });
+  }
+  results.sort((a, b) => a.rank - b.rank || b.token.tvl - a.token.tvl);
+  return results.slice(0, limit);
+}
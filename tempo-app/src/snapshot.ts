@@ -0,0 +1,106 @@
+import { getNetworks, type NetworkId } from "./chain";
+import type { QuoteTokenChange, TokenInfo } from "./fetchTokens";
+
+// ── Offline snapshots ─────────────────────────────────────────────
+
+/** Bump when the snapshot layout or `TokenInfo` changes; older files are rejected. */
+export const SNAPSHOT_VERSION = 2;
+
+export interface TokenSnapshot {
+  version: number;
+  networkId: NetworkId;
+  /** Last block included in the scan the snapshot was taken from. */
+  blockNumber: number;
+  /** When the snapshot was taken (ms since epoch). */
+  timestamp: number;
+  tokens: TokenInfo[];
+}
+
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SnapshotError";
+  }
+}
+
+export function createSnapshot(networkId: NetworkId, blockNumber: number, tokens: TokenInfo[]): TokenSnapshot {
+  return { version: SNAPSHOT_VERSION, networkId, blockNumber, timestamp: Date.now(), tokens };
+}
+
+/** Raw supplies are bigints, which JSON cannot hold; they are written as decimal strings of base units. */
+export function serializeSnapshot(snapshot: TokenSnapshot): string {
+  return JSON.stringify(snapshot, (_key, value) => (typeof value === "bigint" ? value.toString() : value));
+}
+
+/** A token as stored in a snapshot file. */
+type SerializedToken = Omit<TokenInfo, "totalSupply"> & { totalSupply: string };
+
+function isQuoteChange(v: unknown): v is QuoteTokenChange {
+  const c = v as QuoteTokenChange;
+  return typeof c === "object" && c !== null && typeof c.quoteToken === "string" && typeof c.blockNumber === "number";
+}
+
+function isSerializedToken(v: unknown): v is SerializedToken {
+  const t = v as SerializedToken;
+  return (
+    typeof t === "object" &&
+    t !== null &&
+    typeof t.address === "string" &&
+    typeof t.name === "string" &&
+    typeof t.symbol === "string" &&
+    typeof t.currency === "string" &&
+    typeof t.quoteToken === "string" &&
+    (t.nextQuoteToken === null || typeof t.nextQuoteToken === "string") &&
+    Array.isArray(t.quoteHistory) &&
+    t.quoteHistory.every(isQuoteChange) &&
+    typeof t.createdBlock === "number" &&
+    typeof t.totalSupply === "string" &&
+    /^\d+$/.test(t.totalSupply) &&
+    Number.isInteger(t.decimals) &&
+    (t.admin === undefined || typeof t.admin === "string") &&
+    (t.salt === undefined || typeof t.salt === "string")
+  );
+}
+
+/** Parse and validate a snapshot file. Throws SnapshotError describing the first problem found. */
+export function parseSnapshot(text: string): TokenSnapshot {
+  let data: Partial<Omit<TokenSnapshot, "tokens">> & { tokens?: unknown[] };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SnapshotError("Snapshot is not valid JSON");
+  }
+  if (typeof data !== "object" || data === null) throw new SnapshotError("Snapshot is not an object");
+  if (data.version !== SNAPSHOT_VERSION) {
+    throw new SnapshotError(`Unsupported snapshot version ${String(data.version)} (expected ${SNAPSHOT_VERSION})`);
+  }
+  if (typeof data.networkId !== "string" || !Object.hasOwn(getNetworks(), data.networkId)) {
+    throw new SnapshotError(`Unknown network "${String(data.networkId)}"`);
+  }
+  if (typeof data.blockNumber !== "number" || typeof data.timestamp !== "number") {
+    throw new SnapshotError("Snapshot is missing its block number or timestamp");
+  }
+  if (!Array.isArray(data.tokens)) throw new SnapshotError("Snapshot has no token list");
+  const bad = data.tokens.findIndex((t) => !isSerializedToken(t));
+  if (bad !== -1) throw new SnapshotError(`Malformed token at index ${bad}`);
+  const tokens = (data.tokens as SerializedToken[]).map((t) => ({ ...t, totalSupply: BigInt(t.totalSupply) }));
+  return { ...(data as Omit<TokenSnapshot, "tokens">), tokens };
+}
+
+/** Load a snapshot from a URL (e.g. the `?snapshot=` parameter). */
+export async function fetchSnapshot(url: string): Promise<TokenSnapshot> {
+  const res = await fetch(url);
+  if (!res.ok) throw new SnapshotError(`Could not load snapshot (${res.status} ${res.statusText})`);
+  return parseSnapshot(await res.text());
+}
+
+/** Save a snapshot as a JSON download named after its network and block. */
+export function downloadSnapshot(snapshot: TokenSnapshot) {
+  const blob = new Blob([serializeSnapshot(snapshot)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `tempo-tokens-${snapshot.networkId}-${snapshot.blockNumber}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
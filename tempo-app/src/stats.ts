@@ -0,0 +1,111 @@
+import { zeroAddress } from "viem";
+import type { TokenNode } from "./fetchTokens";
+import { toUnits } from "./units";
+
+// ── Tree statistics ───────────────────────────────────────────────
+
+export interface CurrencyStats {
+  currency: string;
+  count: number;
+  /** Whole tokens, in the currency's own unit. */
+  supply: number;
+  /** PathUSD value of `supply`. */
+  tvl: number;
+}
+
+export interface TokenStat {
+  address: string;
+  symbol: string;
+  currency: string;
+  value: number;
+}
+
+export interface CreationBin {
+  /** Block range [start, end). */
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface TreeStats {
+  tokenCount: number;
+  zeroSupply: number;
+  /** Largest PathUSD value first. */
+  currencies: CurrencyStats[];
+  /** Tokens at each depth; the root token is depth 0. */
+  depths: number[];
+  /** Quote tokens with the most direct children; `value` is the child count. */
+  topQuoteTokens: TokenStat[];
+  /** Tokens with the largest supply by PathUSD value; `value` is the whole-token supply. */
+  topSupply: TokenStat[];
+  /** Factory tokens created per block range, oldest first; genesis tokens are left out. */
+  creation: CreationBin[];
+}
+
+const TOP_N = 10;
+const CREATION_BINS = 30;
+
+/** Aggregate the tokens in a (filtered) tree. */
+export function computeTreeStats(root: TokenNode): TreeStats {
+  const currencies = new Map<string, CurrencyStats>();
+  const depths: number[] = [];
+  const nodes: TokenNode[] = [];
+  let zeroSupply = 0;
+
+  function walk(node: TokenNode, depth: number) {
+    nodes.push(node);
+    depths[depth] = (depths[depth] ?? 0) + 1;
+    if (node.totalSupply === 0n) zeroSupply++;
+    const key = node.currency || "?";
+    const cur = currencies.get(key) ?? { currency: key, count: 0, supply: 0, tvl: 0 };
+    cur.count++;
+    cur.supply += toUnits(node.totalSupply, node.decimals);
+    cur.tvl += node.tvl;
+    currencies.set(key, cur);
+    for (const c of node.children) walk(c, depth + 1);
+  }
+
+  // buildTree adds a synthetic root when no token quotes zeroAddress; it is not a token
+  if (root.address === zeroAddress) root.children.forEach((c) => walk(c, 0));
+  else walk(root, 0);
+
+  const stat = (n: TokenNode, value: number): TokenStat => ({ address: n.address, symbol: n.symbol, currency: n.currency, value });
+
+  const topQuoteTokens = nodes
+    .filter((n) => n.children.length > 0)
+    .sort((a, b) => b.children.length - a.children.length)
+    .slice(0, TOP_N)
+    .map((n) => stat(n, n.children.length));
+
+  const topSupply = nodes
+    .filter((n) => n.tvl > 0)
+    .sort((a, b) => b.tvl - a.tvl)
+    .slice(0, TOP_N)
+    .map((n) => stat(n, toUnits(n.totalSupply, n.decimals)));
+
+  return {
+    tokenCount: nodes.length,
+    zeroSupply,
+    currencies: [...currencies.values()].sort((a, b) => b.tvl - a.tvl || b.count - a.count),
+    depths: Array.from(depths, (d) => d ?? 0),
+    topQuoteTokens,
+    topSupply,
+    creation: creationBins(nodes.map((n) => n.createdBlock).filter((b) => b > 0)),
+  };
+}
+
+/** Split the span of creation blocks into equal ranges and count tokens in each. */
+function creationBins(blocks: number[]): CreationBin[] {
+  if (blocks.length === 0) return [];
+  let min = Infinity;
+  let max = -Infinity;
+  for (const b of blocks) {
+    if (b < min) min = b;
+    if (b > max) max = b;
+  }
+  const width = Math.max(1, Math.ceil((max + 1 - min) / CREATION_BINS));
+  const bins: CreationBin[] = [];
+  for (let start = min; start <= max; start += width) bins.push({ start, end: start + width, count: 0 });
+  for (const b of blocks) bins[Math.floor((b - min) / width)].count++;
+  return bins;
+}
@@ -0,0 +1,82 @@
+import type { NetworkId } from "./chain";
+import type { BlockRange, TokenInfo } from "./fetchTokens";
+
+// ── Persistent scan cache (IndexedDB) ─────────────────────────────
+
+/**
+ * Bump whenever the shape of `TokenInfo` (or anything else stored in a
+ * `CachedScan`) changes. Records written under another version are dropped
+ * on read, forcing a full rescan.
+ */
+export const CACHE_SCHEMA_VERSION = 4;
+
+const DB_NAME = "tempo-dex-map";
+const DB_VERSION = 1;
+const STORE = "scans";
+
+export interface CachedScan {
+  networkId: NetworkId;
+  schemaVersion: number;
+  /** Last block whose TokenCreated logs are included in `tokens`. */
+  lastBlock: number;
+  /** Block at which the stored `totalSupply` values were read. */
+  supplyBlock: number;
+  tokens: TokenInfo[];
+  /** Ranges up to `lastBlock` that could not be scanned; their tokens are missing from `tokens`. */
+  failedRanges?: BlockRange[];
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: "networkId" });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }).catch((err) => {
+    dbPromise = null;
+    throw err;
+  });
+  return dbPromise;
+}
+
+function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(STORE, mode);
+        const req = fn(tx.objectStore(STORE));
+        tx.oncomplete = () => resolve(req.result as T);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      }),
+  );
+}
+
+/** Load the cached scan for a network, or null if missing or written under an older schema. */
+export async function loadScan(networkId: NetworkId): Promise<CachedScan | null> {
+  const scan = await run<CachedScan | undefined>("readonly", (store) => store.get(networkId));
+  if (!scan) return null;
+  if (scan.schemaVersion !== CACHE_SCHEMA_VERSION) {
+    await clearScan(networkId);
+    return null;
+  }
+  return scan;
+}
+
+export async function saveScan(scan: Omit<CachedScan, "schemaVersion" | "updatedAt">): Promise<void> {
+  const record: CachedScan = { ...scan, schemaVersion: CACHE_SCHEMA_VERSION, updatedAt: Date.now() };
+  await run("readwrite", (store) => store.put(record));
+}
+
+export async function clearScan(networkId: NetworkId): Promise<void> {
+  await run("readwrite", (store) => store.delete(networkId));
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { inspectToken, revealHidden } from "./tokenSafety";
+
+const flags = (name: string, symbol: string) => inspectToken({ name, symbol }).map((w) => `${w.field}:${w.flag}`);
+
+describe("inspectToken", () => {
+  it("passes plain names and non-Latin names that do not mix scripts", () => {
+    expect(flags("Path USD", "pathUSD")).toEqual([]);
+    expect(flags("Рубль", "РУБ")).toEqual([]);
+    expect(flags("日本円", "JPYC")).toEqual([]);
+  });
+
+  it("flags Latin mixed with Cyrillic or Greek look-alikes", () => {
+    // U+0421 is a Cyrillic capital Es, U+039F a Greek capital Omicron
+    expect(flags("USD Coin", "USD\u0421")).toEqual(["symbol:homoglyph"]);
+    expect(flags("T\u039fKEN", "TKN")).toEqual(["name:homoglyph"]);
+    expect(inspectToken({ name: "x", symbol: "USD\u0421" })[0].message).toBe("symbol mixes Latin with Cyrillic letters");
+  });
+
+  it("flags fullwidth look-alikes", () => {
+    expect(flags("USDC", "\uff35\uff33\uff24\uff23")).toEqual(["symbol:homoglyph"]);
+  });
+
+  it("flags control, zero-width and bidi characters separately", () => {
+    expect(flags("a\u0007b", "X")).toEqual(["name:control"]);
+    expect(flags("X", "US\u200bDC")).toEqual(["symbol:invisible"]);
+    expect(flags("\u202eDSU", "X")).toEqual(["name:bidi"]);
+  });
+});
+
+describe("revealHidden", () => {
+  it("replaces hidden characters with code point markers", () => {
+    expect(revealHidden("US\u200bDC")).toBe("US<U+200B>DC");
+    expect(revealHidden("\u202eDSU\n")).toBe("<U+202E>DSU<U+000A>");
+  });
+
+  it("leaves visible text, including look-alikes, unchanged", () => {
+    expect(revealHidden("USD\u0421 日本")).toBe("USD\u0421 日本");
+  });
+});
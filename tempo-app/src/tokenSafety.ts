@@ -0,0 +1,84 @@
+// ── Suspicious on-chain strings ───────────────────────────────────
+//
+// Token names and symbols come from permissionless TokenCreated events, so
+// they are attacker-controlled. They are always rendered as text; this module
+// additionally flags strings that are crafted to look like something else.
+
+export type SafetyFlag = "control" | "invisible" | "bidi" | "homoglyph";
+
+export interface SafetyWarning {
+  field: "name" | "symbol";
+  flag: SafetyFlag;
+  message: string;
+}
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
+
+// Characters that render as nothing (or as blank space) but change the string
+const INVISIBLE = new Set([0x00ad, 0x034f, 0x115f, 0x1160, 0x180e, ...range(0x200b, 0x200d), ...range(0x2060, 0x2064), 0x3164, 0xfeff, 0xffa0]);
+// Characters that reorder the surrounding text
+const BIDI = new Set([0x061c, 0x200e, 0x200f, ...range(0x202a, 0x202e), ...range(0x2066, 0x2069)]);
+
+function isControl(cp: number): boolean {
+  return cp <= 0x1f || (cp >= 0x7f && cp <= 0x9f);
+}
+
+function isHidden(cp: number): boolean {
+  return isControl(cp) || INVISIBLE.has(cp) || BIDI.has(cp);
+}
+
+function codePoints(value: string): number[] {
+  return Array.from(value, (ch) => ch.codePointAt(0)!);
+}
+
+const LATIN_RE = /\p{Script=Latin}/u;
+// Scripts with letters that are visually identical to Latin ones
+const CONFUSABLE_SCRIPTS: [string, RegExp][] = [
+  ["Cyrillic", /\p{Script=Cyrillic}/u],
+  ["Greek", /\p{Script=Greek}/u],
+  ["Armenian", /\p{Script=Armenian}/u],
+  ["Cherokee", /\p{Script=Cherokee}/u],
+];
+// Fullwidth ASCII look-alikes, e.g. a fullwidth "USDC"
+function isFullwidth(cp: number): boolean {
+  return cp >= 0xff01 && cp <= 0xff5e;
+}
+
+function inspectField(field: SafetyWarning["field"], value: string): SafetyWarning[] {
+  const warnings: SafetyWarning[] = [];
+  const cps = codePoints(value);
+  if (cps.some(isControl)) {
+    warnings.push({ field, flag: "control", message: `${field} contains control characters` });
+  }
+  if (cps.some((cp) => INVISIBLE.has(cp))) {
+    warnings.push({ field, flag: "invisible", message: `${field} contains zero-width or invisible characters` });
+  }
+  if (cps.some((cp) => BIDI.has(cp))) {
+    warnings.push({ field, flag: "bidi", message: `${field} contains bidirectional override characters` });
+  }
+  if (LATIN_RE.test(value)) {
+    const mixed = CONFUSABLE_SCRIPTS.filter(([, re]) => re.test(value)).map(([script]) => script);
+    if (mixed.length > 0) {
+      warnings.push({ field, flag: "homoglyph", message: `${field} mixes Latin with ${mixed.join(", ")} letters` });
+    }
+  }
+  if (cps.some(isFullwidth)) {
+    warnings.push({ field, flag: "homoglyph", message: `${field} uses fullwidth look-alike characters` });
+  }
+  return warnings;
+}
+
+/** Flag a token whose name or symbol could be used to impersonate another token or break the UI. */
+export function inspectToken(token: { name: string; symbol: string }): SafetyWarning[] {
+  return [...inspectField("symbol", token.symbol), ...inspectField("name", token.name)];
+}
+
+/** Replace control, invisible and bidi characters with visible `<U+XXXX>` markers. */
+export function revealHidden(value: string): string {
+  return Array.from(value, (ch) => {
+    const cp = ch.codePointAt(0)!;
+    return isHidden(cp) ? `<U+${cp.toString(16).toUpperCase().padStart(4, "0")}>` : ch;
+  }).join("");
+}
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { networkFromSpec } from "./chain";
+import { makeTransport } from "./transport";
+
+const network = networkFromSpec({
+  id: "devnet",
+  label: "Devnet",
+  chainId: 1337,
+  rpcUrl: "http://primary.test",
+  fallbackRpcUrls: ["http://fallback.test"],
+  requestsPerSecond: 1000,
+});
+
+/** Stub fetch: the primary answers 503, the fallback too if `fallbackUp` is false. Returns the hosts in call order. */
+function stubFetch(fallbackUp = true): string[] {
+  const calls: string[] = [];
+  vi.stubGlobal("fetch", async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    calls.push(url.hostname);
+    if (url.hostname === "primary.test" || !fallbackUp) return new Response("unavailable", { status: 503 });
+    const { id } = JSON.parse(String(init?.body)) as { id: number };
+    return Response.json({ jsonrpc: "2.0", id, result: "0x539" });
+  });
+  return calls;
+}
+
+describe("makeTransport", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("retries the primary URL with backoff before failing over", async () => {
+    vi.useFakeTimers();
+    const calls = stubFetch();
+    const { request } = makeTransport(network)({ chain: network.chain });
+    const result = request({ method: "eth_chainId" });
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe("0x539");
+    // RETRY_COUNT + 1 attempts on the primary, then one on the fallback
+    expect(calls).toEqual([...Array(5).fill("primary.test"), "fallback.test"]);
+  });
+
+  it("fails once every URL has used up its own retries", async () => {
+    vi.useFakeTimers();
+    const calls = stubFetch(false);
+    const { request } = makeTransport(network)({ chain: network.chain });
+    const result = request({ method: "eth_chainId" });
+    const settled = expect(result).rejects.toThrow();
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(calls).toEqual([...Array(5).fill("primary.test"), ...Array(5).fill("fallback.test")]);
+  });
+});
@@ -0,0 +1,72 @@
+import { http, fallback, type Transport } from "viem";
+import type { NetworkConfig, NetworkId } from "./chain";
+
+// ── Retry policy ──────────────────────────────────────────────────
+
+// viem backs off exponentially between attempts: retryDelay * 2^attempt. Each endpoint
+// retries on its own; the fallback group does not, so a URL is only given up on after
+// its own retries and the whole list is never walked again.
+const RETRY_COUNT = 4;
+const RETRY_DELAY_MS = 250;
+
+export const DEFAULT_REQUESTS_PER_SECOND = 20;
+
+// ── Rate limiting ─────────────────────────────────────────────────
+
+/** Returns a function that resolves when the next request may start, spacing starts evenly. */
+export function createRateLimiter(perSecond: number): () => Promise<void> {
+  const interval = 1000 / perSecond;
+  let next = 0;
+  return () => {
+    const now = Date.now();
+    const at = Math.max(now, next);
+    next = at + interval;
+    return at > now ? new Promise((resolve) => setTimeout(resolve, at - now)) : Promise.resolve();
+  };
+}
+
+// One limiter per network, shared by every client created for it in this context
+// (the tree worker scanning logs has its own)
+const limiters = new Map<NetworkId, { perSecond: number; acquire: () => Promise<void> }>();
+
+function limiterFor(network: NetworkConfig): () => Promise<void> {
+  const perSecond = network.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND;
+  let limiter = limiters.get(network.id);
+  if (!limiter || limiter.perSecond !== perSecond) {
+    limiter = { perSecond, acquire: createRateLimiter(perSecond) };
+    limiters.set(network.id, limiter);
+  }
+  return limiter.acquire;
+}
+
+// ── Transport ─────────────────────────────────────────────────────
+
+/**
+ * HTTP transport for a network: rate-limited, and falling back across `rpcUrl`
+ * then each of `fallbackRpcUrls` in order, each retried with exponential backoff first.
+ * Once `signal` aborts, queued requests are dropped and in-flight ones cancelled.
+ */
+export function makeTransport(network: NetworkConfig, signal?: AbortSignal): Transport {
+  const acquire = limiterFor(network);
+  const headers: Record<string, string> = {};
+  if (network.rpcAuth) {
+    headers["Authorization"] = network.rpcAuth;
+  }
+  const endpoint = (url: string) =>
+    http(url, {
+      retryCount: RETRY_COUNT,
+      retryDelay: RETRY_DELAY_MS,
+      fetchOptions: { headers },
+      fetchFn: async (input, init) => {
+        signal?.throwIfAborted();
+        await acquire();
+        signal?.throwIfAborted();
+        if (!signal) return fetch(input, init);
+        // Keep viem's own timeout signal alongside ours
+        return fetch(input, { ...init, signal: init?.signal ? AbortSignal.any([init.signal, signal]) : signal });
+      },
+    });
+
+  const urls = [network.rpcUrl, ...(network.fallbackRpcUrls ?? [])];
+  return urls.length === 1 ? endpoint(urls[0]) : fallback(urls.map(endpoint), { retryCount: 0 });
+}
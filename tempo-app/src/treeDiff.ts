@@ -0,0 +1,83 @@
+import type { TokenNode } from "./fetchTokens";
+
+// ── Incremental tree updates ──────────────────────────────────────
+
+/** A tree node without its subtree; children are referenced by address. */
+export interface FlatTreeNode extends Omit<TokenNode, "children"> {
+  children: string[];
+}
+
+/**
+ * Changes between two builds of the token tree. `nodes` holds every node that
+ * changed or has a changed descendant, so applying a diff recreates only the
+ * paths from the changes up to the root and shares every untouched subtree.
+ */
+export interface TreeDiff {
+  /** Start from an empty tree instead of patching the previous one. */
+  reset: boolean;
+  root: string;
+  nodes: FlatTreeNode[];
+  removed: string[];
+}
+
+/** Fingerprint of every node in the last diffed build, keyed by address. */
+export type TreeFingerprints = Map<string, string>;
+
+function fingerprint(node: TokenNode): string {
+  return [
+    node.name,
+    node.symbol,
+    node.currency,
+    node.quoteToken,
+    node.nextQuoteToken,
+    node.quoteHistory.length,
+    node.totalSupply,
+    node.decimals,
+    node.price,
+    node.priceSource,
+    node.tvl,
+    node.subtreeTvl,
+    node.descendantCount,
+    node.children.map((c) => c.address).join(","),
+  ].join("|");
+}
+
+/** Diff a freshly built tree against the previous build; `previous` null means a full reset. */
+export function diffTree(
+  root: TokenNode,
+  previous: TreeFingerprints | null,
+): { diff: TreeDiff; fingerprints: TreeFingerprints } {
+  const fingerprints: TreeFingerprints = new Map();
+  const nodes: FlatTreeNode[] = [];
+
+  // Post-order, so each node knows whether anything below it changed
+  function visit(node: TokenNode): boolean {
+    let changed = false;
+    for (const c of node.children) {
+      if (visit(c)) changed = true;
+    }
+    const fp = fingerprint(node);
+    fingerprints.set(node.address, fp);
+    if (!changed && previous?.get(node.address) === fp) return false;
+    const { children, ...fields } = node;
+    nodes.push({ ...fields, children: children.map((c) => c.address) });
+    return true;
+  }
+  visit(root);
+
+  const removed = previous ? [...previous.keys()].filter((address) => !fingerprints.has(address)) : [];
+  return { diff: { reset: previous === null, root: root.address, nodes, removed }, fingerprints };
+}
+
+/** Patch the address index of the previous build in place and return the new root. */
+export function applyTreeDiff(index: Map<string, TokenNode>, diff: TreeDiff): TokenNode {
+  if (diff.reset) index.clear();
+  for (const address of diff.removed) index.delete(address);
+  const patched = diff.nodes.map((flat) => {
+    const node: TokenNode = { ...flat, children: [] };
+    index.set(flat.address, node);
+    return [node, flat.children] as const;
+  });
+  for (const [node, children] of patched) node.children = children.map((address) => index.get(address)!);
+  return index.get(diff.root)!;
+}
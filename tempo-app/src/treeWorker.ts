@@ -0,0 +1,517 @@
+import { networkFromSpec, type NetworkConfig, type NetworkSpec } from "./chain";
+import {
+  fetchGenesisTokens,
+  streamFactoryTokens,
+  fetchTokenState,
+  applyTokenState,
+  groupQuoteUpdates,
+  applyQuoteUpdates,
+  verifyChainId,
+  buildTree,
+  tokensAsOf,
+  type BlockRange,
+  type PairLiquidity,
+  type QuoteTokenChange,
+  type QuoteTokenUpdate,
+  type TokenInfo,
+  type TokenState,
+} from "./fetchTokens";
+import { compareTokens, type TokenComparison } from "./compare";
+import { compileFilter, EMPTY_FILTER, matchesExcluded, type FilterSpec } from "./filters";
+import { computePrices, tokenTvl, DEFAULT_FX_RATES } from "./pricing";
+import { loadScan, saveScan, clearScan } from "./tokenCache";
+import { diffTree, type TreeDiff, type TreeFingerprints } from "./treeDiff";
+
+// ── Protocol ──────────────────────────────────────────────────────
+
+export type TreeWorkerRequest =
+  /** Scan a network from the cache or from genesis; `rescan` drops the cache first. */
+  | { type: "load"; loadId: number; network: NetworkSpec; rescan?: boolean }
+  /** Use these tokens as they are (snapshot replay), without touching the RPC. */
+  | { type: "replace"; loadId: number; tokens: TokenInfo[] }
+  | { type: "cancel" }
+  /** Re-run block ranges and token state reads that failed during the load. */
+  | { type: "retry"; ranges: BlockRange[]; tokens: string[] }
+  /**
+   * Tokens, parent changes and supplies found by live mode on the main thread,
+   * tagged with the `loadId` they were read for; those from an earlier load are dropped.
+   */
+  | { type: "addTokens"; loadId: number; tokens: TokenInfo[] }
+  | { type: "quoteUpdates"; loadId: number; updates: QuoteTokenUpdate[] }
+  | { type: "tokenState"; loadId: number; states: Map<string, TokenState> }
+  /** Filter inputs; every request carries a new `id`, and trees are tagged with the latest one. */
+  | { type: "build"; id: number; minTvl: number; excluded: string[]; spec: FilterSpec }
+  | { type: "pricing"; id: number; liquidity: Map<string, PairLiquidity>; fxRates: Record<string, number> }
+  /** Rebuild the tree as of a past block (null for the latest state); shares the build ids above. */
+  | { type: "asOf"; id: number; block: number | null }
+  /** Compare every tree with a baseline (null to stop comparing). */
+  | { type: "compare"; id: number; base: CompareBase | null };
+
+/** Baseline of a comparison: the tokens at a past block, or a snapshot's tokens. */
+export type CompareBase = { block: number } | { tokens: TokenInfo[] };
+
+export type TreeWorkerEvent =
+  /** A load began: everything sent for the previous one is void. */
+  | { type: "loadStarted" }
+  | { type: "progress"; message: string }
+  /** Tokens added or changed since the last event; `reset` replaces the whole list. */
+  | { type: "tokens"; tokens: TokenInfo[]; reset: boolean }
+  | {
+      type: "tree";
+      /** Id of the newest filter inputs this tree was built with. */
+      buildId: number;
+      diff: TreeDiff;
+      tokenCount: number;
+      visibleCount: number;
+      maxTvl: number;
+      /** Sorted unique symbols; only sent when tokens were added. */
+      symbols?: string[];
+      /** Block the tree was rebuilt at, or null for the latest state. */
+      asOf: number | null;
+      /** Tokens in a past tree or baseline whose state could not be read (counted with zero supply). */
+      unreadSupplies: number;
+      /** Changes against the comparison baseline; removed tokens are drawn where they used to be. */
+      comparison: TokenComparison | null;
+    }
+  | { type: "rangesFailed"; ranges: BlockRange[] }
+  | { type: "tokensFailed"; addresses: string[] }
+  | { type: "done"; latestBlock: number }
+  | { type: "retried" }
+  | { type: "error"; message: string };
+
+function post(event: TreeWorkerEvent) {
+  self.postMessage(event);
+}
+
+// ── Token list ────────────────────────────────────────────────────
+
+let tokens: TokenInfo[] = [];
+// Streamed tokens waiting for the next flush
+let pending: TokenInfo[] = [];
+// Every QuoteTokenUpdate seen for this network, applied to tokens on flush
+let quoteUpdates = new Map<string, QuoteTokenChange[]>();
+let quoteUpdatesDirty = false;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Replace the token list; the next tree is sent as a reset. */
+function resetTokens(next: TokenInfo[]) {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = null;
+  tokens = next;
+  pending = [];
+  quoteUpdates = new Map();
+  quoteUpdatesDirty = false;
+  fingerprints = null;
+  symbolCount = -1;
+  resetPastStates();
+  post({ type: "tokens", tokens: next, reset: true });
+  scheduleBuild();
+}
+
+/** Swap in a new token list and send the tokens that were added or changed. */
+function commitTokens(next: TokenInfo[]) {
+  const changed = next.filter((t, i) => i >= tokens.length || t !== tokens[i]);
+  tokens = next;
+  if (changed.length === 0) return;
+  post({ type: "tokens", tokens: changed, reset: false });
+  scheduleBuild();
+}
+
+function flush() {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = null;
+  if (pending.length === 0 && !quoteUpdatesDirty) return;
+  const batch = pending;
+  pending = [];
+  quoteUpdatesDirty = false;
+  commitTokens(applyQuoteUpdates([...tokens, ...batch], quoteUpdates));
+}
+
+// Batch streamed tokens so the tree is rebuilt at most every 600 ms
+function scheduleFlush() {
+  if (flushTimer) return;
+  flushTimer = setTimeout(flush, 600);
+}
+
+function recordQuoteUpdates(updates: QuoteTokenUpdate[]) {
+  groupQuoteUpdates(updates, quoteUpdates);
+  quoteUpdatesDirty = true;
+  scheduleFlush();
+}
+
+// ── Tree building ─────────────────────────────────────────────────
+
+let filter = { id: 0, minTvl: 0, excluded: [] as string[], spec: EMPTY_FILTER };
+let pricing = { liquidity: new Map<string, PairLiquidity>(), fxRates: { ...DEFAULT_FX_RATES } };
+let buildId = 0;
+// Fingerprints of the last tree sent; null until the first tree of a token list
+let fingerprints: TreeFingerprints | null = null;
+// Token count when symbols were last sent
+let symbolCount = -1;
+let buildTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Deferred so a burst of requests (slider drags, queued behind a long build) yields one tree for the latest inputs
+function scheduleBuild() {
+  if (buildTimer) return;
+  buildTimer = setTimeout(build, 0);
+}
+
+function excludeFiltered(list: TokenInfo[]): TokenInfo[] {
+  return filter.excluded.length === 0 ? list : list.filter((t) => !matchesExcluded(t.symbol, filter.excluded));
+}
+
+// Compiled per list, since depths and quote token symbols come from the list itself
+function specFiltered(list: TokenInfo[]): TokenInfo[] {
+  const matches = compileFilter(filter.spec, list);
+  return matches ? list.filter(matches) : list;
+}
+
+function build() {
+  buildTimer = null;
+  // Start both reads before waiting on either
+  const current = asOf === null ? { tokens, unread: 0 } : pastTokens(asOf);
+  const base = compareBase === null ? null : "tokens" in compareBase ? { tokens: compareBase.tokens, unread: 0 } : pastTokens(compareBase.block);
+  // Rebuilt once the reads complete, so a frame never shows half-read supplies
+  if (!current || base === undefined) return;
+  const source = current.tokens;
+  const unreadSupplies = current.unread + (base?.unread ?? 0);
+
+  const filtered = excludeFiltered(source);
+  // Tokens missing from the current state stay in the tree where the baseline had them
+  const baseFiltered = base ? excludeFiltered(base.tokens) : null;
+  let treeTokens = filtered;
+  if (baseFiltered) {
+    const present = new Set(filtered.map((t) => t.address.toLowerCase()));
+    const removed = baseFiltered.filter((t) => !present.has(t.address.toLowerCase()));
+    if (removed.length > 0) treeTokens = [...filtered, ...removed];
+  }
+
+  // Past trees are valued with today's prices; only supplies and parents are rewound
+  const prices = computePrices(treeTokens, pricing.liquidity, pricing.fxRates);
+  const comparison = baseFiltered ? compareTokens(specFiltered(baseFiltered), specFiltered(filtered), prices) : null;
+  const matches = compileFilter(filter.spec, treeTokens);
+  const { root, tokenCount, visibleCount } = buildTree(treeTokens, filter.minTvl, prices, matches);
+  const result = diffTree(root, fingerprints);
+  fingerprints = result.fingerprints;
+
+  let maxTvl = 0;
+  for (const t of source) maxTvl = Math.max(maxTvl, tokenTvl(t, prices));
+
+  let symbols: string[] | undefined;
+  if (tokens.length !== symbolCount) {
+    symbols = [...new Set(tokens.map((t) => t.symbol))].sort();
+    symbolCount = tokens.length;
+  }
+
+  post({
+    type: "tree",
+    buildId,
+    diff: result.diff,
+    tokenCount,
+    visibleCount,
+    maxTvl,
+    symbols,
+    asOf,
+    unreadSupplies,
+    comparison,
+  });
+}
+
+// ── Time travel ───────────────────────────────────────────────────
+
+interface PastStates {
+  /** State read at the block, by lowercased address. */
+  states: Map<string, TokenState>;
+  /** Addresses already read (or attempted), so failed reads are not retried on every build. */
+  requested: Set<string>;
+  /** Reads in flight. */
+  loading: number;
+}
+
+// Enough for a full playback without holding state for every block ever scrubbed to
+const PAST_BLOCKS_KEPT = 100;
+
+let asOf: number | null = null;
+let compareBase: CompareBase | null = null;
+let pastStates = new Map<number, PastStates>();
+let pastAbort = new AbortController();
+
+function resetPastStates() {
+  pastAbort.abort();
+  pastAbort = new AbortController();
+  pastStates = new Map();
+}
+
+/** Tokens as of `block` and how many of their states could not be read; undefined while reads are in flight. */
+function pastTokens(block: number): { tokens: TokenInfo[]; unread: number } | undefined {
+  const past = pastStatesAt(block);
+  if (past.loading > 0) return undefined;
+  const list = tokensAsOf(tokens, block, past.states);
+  let unread = 0;
+  for (const t of list) if (!past.states.has(t.address.toLowerCase())) unread++;
+  return { tokens: list, unread };
+}
+
+/** State at `block` for every token created by then, starting reads for the ones not requested yet. */
+function pastStatesAt(block: number): PastStates {
+  let past = pastStates.get(block);
+  if (!past) {
+    past = { states: new Map(), requested: new Set(), loading: 0 };
+    pastStates.set(block, past);
+    if (pastStates.size > PAST_BLOCKS_KEPT) pastStates.delete(pastStates.keys().next().value!);
+  }
+  const missing = tokens.filter((t) => t.createdBlock <= block && !past.requested.has(t.address.toLowerCase()));
+  if (missing.length === 0) return past;
+  for (const t of missing) past.requested.add(t.address.toLowerCase());
+  // Snapshot replays have no RPC to read from; their past supplies stay unread
+  if (!network) return past;
+
+  const { signal } = pastAbort;
+  const entry = past;
+  entry.loading++;
+  fetchTokenState(network, missing.map((t) => t.address), { blockNumber: block, signal })
+    .then((states) => {
+      for (const [address, state] of states) entry.states.set(address, state);
+    })
+    .catch((err) => {
+      if (!signal.aborted) console.warn(`Failed to read token state at block ${block}:`, err);
+    })
+    .finally(() => {
+      entry.loading--;
+      const wanted = asOf === block || (compareBase !== null && "block" in compareBase && compareBase.block === block);
+      if (!signal.aborted && wanted) scheduleBuild();
+    });
+  return past;
+}
+
+// ── Loading ───────────────────────────────────────────────────────
+
+let network: NetworkConfig | null = null;
+// Id of the latest load or replace request, to drop live-mode messages meant for an earlier one
+let loadId = 0;
+// Cancels the in-flight load and any retry started from it
+let loadAbort: AbortController | null = null;
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+async function load(spec: NetworkSpec, rescan: boolean) {
+  loadAbort?.abort();
+  const controller = new AbortController();
+  loadAbort = controller;
+  const { signal } = controller;
+  const net = networkFromSpec(spec);
+  network = net;
+  asOf = null;
+  compareBase = null;
+  post({ type: "loadStarted" });
+  resetTokens([]);
+
+  try {
+    if (rescan) await clearScan(net.id).catch((err) => console.warn("Failed to clear token cache:", err));
+    post({ type: "progress", message: `Connecting to ${net.label}...` });
+    await verifyChainId(net);
+    signal.throwIfAborted();
+
+    // Resume from the persisted scan when there is one; fall back to a full scan.
+    const cached = await loadScan(net.id).catch((err) => {
+      console.warn("Token cache unavailable:", err);
+      return null;
+    });
+    signal.throwIfAborted();
+
+    let initial: TokenInfo[];
+    let fromBlock = 0;
+    if (cached) {
+      initial = cached.tokens;
+      fromBlock = cached.lastBlock + 1;
+      post({
+        type: "progress",
+        message: `Loaded ${initial.length.toLocaleString()} cached tokens · syncing from block ${fromBlock.toLocaleString()}...`,
+      });
+    } else {
+      post({ type: "progress", message: "Fetching genesis tokens..." });
+      initial = await fetchGenesisTokens(net, signal);
+      signal.throwIfAborted();
+      post({ type: "progress", message: "Streaming factory tokens..." });
+    }
+    resetTokens(initial);
+    // Everything scanned so far, for persisting once the stream completes
+    let scanned = [...initial];
+    // Ranges still missing, including ones a cached scan could not fetch
+    const failed: BlockRange[] = [...(cached?.failedRanges ?? [])];
+    if (failed.length > 0) post({ type: "rangesFailed", ranges: failed });
+
+    // Cached supplies and parents are a snapshot; refresh them while new logs stream in.
+    const refreshCachedState = cached
+      ? fetchTokenState(net, cached.tokens.map((t) => t.address), {
+          onFailed: (addresses) => post({ type: "tokensFailed", addresses }),
+          signal,
+        })
+      : Promise.resolve(new Map<string, TokenState>());
+
+    await streamFactoryTokens(
+      net,
+      (newTokens, progressMsg) => {
+        post({ type: "progress", message: progressMsg });
+        if (newTokens.length > 0) {
+          scanned.push(...newTokens);
+          pending.push(...newTokens);
+          scheduleFlush();
+        }
+      },
+      (latestBlock) => {
+        flush();
+        post({ type: "done", latestBlock });
+
+        refreshCachedState
+          .then((states) => {
+            if (signal.aborted) return;
+            scanned = applyQuoteUpdates(scanned, quoteUpdates);
+            if (states.size > 0) {
+              scanned = applyTokenState(scanned, states);
+              commitTokens(applyTokenState(tokens, states));
+            }
+            return saveScan({
+              networkId: net.id,
+              lastBlock: latestBlock,
+              supplyBlock: latestBlock,
+              tokens: scanned,
+              failedRanges: failed,
+            });
+          })
+          .catch((err) => console.warn("Failed to persist token cache:", err));
+      },
+      {
+        fromBlock,
+        signal,
+        onQuoteUpdates: recordQuoteUpdates,
+        onRangeError: (range) => {
+          failed.push(range);
+          post({ type: "rangesFailed", ranges: [range] });
+        },
+      },
+    );
+  } catch (err) {
+    if (signal.aborted) return;
+    post({ type: "error", message: errorMessage(err) });
+  }
+}
+
+/** Re-run the block ranges and token state reads that failed, then update the cache. */
+async function retry(ranges: BlockRange[], addresses: string[]) {
+  const net = network;
+  const signal = loadAbort?.signal;
+  if (!net) return;
+  try {
+    const recovered: TokenInfo[] = [];
+    const stillFailed: BlockRange[] = [];
+    const [states] = await Promise.all([
+      fetchTokenState(net, addresses, {
+        onFailed: (failedAddresses) => post({ type: "tokensFailed", addresses: failedAddresses }),
+        signal,
+      }),
+      ranges.length === 0
+        ? Promise.resolve()
+        : streamFactoryTokens(
+            net,
+            (newTokens) => {
+              if (newTokens.length === 0) return;
+              recovered.push(...newTokens);
+              pending.push(...newTokens);
+              scheduleFlush();
+            },
+            () => {},
+            {
+              ranges,
+              signal,
+              onQuoteUpdates: recordQuoteUpdates,
+              onRangeError: (range) => {
+                stillFailed.push(range);
+                post({ type: "rangesFailed", ranges: [range] });
+              },
+            },
+          ),
+    ]);
+    signal?.throwIfAborted();
+    if (states.size > 0) commitTokens(applyTokenState(tokens, states));
+
+    const cached = await loadScan(net.id);
+    if (cached) {
+      const known = new Set(cached.tokens.map((t) => t.address.toLowerCase()));
+      const merged = [...cached.tokens, ...recovered.filter((t) => !known.has(t.address.toLowerCase()))];
+      await saveScan({
+        ...cached,
+        tokens: applyTokenState(applyQuoteUpdates(merged, quoteUpdates), states),
+        failedRanges: stillFailed,
+      });
+    }
+  } catch (err) {
+    if (signal?.aborted) return;
+    console.error("Retry of failed ranges failed:", err);
+    post({ type: "rangesFailed", ranges });
+    post({ type: "tokensFailed", addresses });
+  } finally {
+    post({ type: "retried" });
+  }
+}
+
+// ── Messages ──────────────────────────────────────────────────────
+
+self.onmessage = (event: MessageEvent<TreeWorkerRequest>) => {
+  const req = event.data;
+  switch (req.type) {
+    case "load":
+      loadId = req.loadId;
+      load(req.network, req.rescan ?? false);
+      break;
+    case "replace":
+      loadId = req.loadId;
+      loadAbort?.abort();
+      network = null;
+      asOf = null;
+      compareBase = null;
+      resetTokens(req.tokens);
+      break;
+    case "cancel":
+      loadAbort?.abort();
+      break;
+    case "retry":
+      retry(req.ranges, req.tokens);
+      break;
+    case "addTokens":
+      if (req.loadId !== loadId) break;
+      pending.push(...req.tokens);
+      scheduleFlush();
+      break;
+    case "quoteUpdates":
+      if (req.loadId !== loadId) break;
+      recordQuoteUpdates(req.updates);
+      break;
+    case "tokenState":
+      if (req.loadId !== loadId) break;
+      commitTokens(applyTokenState(tokens, req.states));
+      break;
+    case "build":
+      filter = req;
+      buildId = req.id;
+      scheduleBuild();
+      break;
+    case "pricing":
+      pricing = req;
+      buildId = req.id;
+      scheduleBuild();
+      break;
+    case "asOf":
+      asOf = req.block;
+      buildId = req.id;
+      scheduleBuild();
+      break;
+    case "compare":
+      compareBase = req.base;
+      buildId = req.id;
+      scheduleBuild();
+      break;
+  }
+};
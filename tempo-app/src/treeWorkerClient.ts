@@ -0,0 +1,33 @@
+import type { TokenInfo } from "./fetchTokens";
+import type { TreeWorkerEvent, TreeWorkerRequest } from "./treeWorker";
+
+export interface TreeWorker {
+  post: (request: TreeWorkerRequest) => void;
+  terminate: () => void;
+}
+
+/** Start a tree worker; its events go to `onEvent` until it is terminated. */
+export function createTreeWorker(onEvent: (event: TreeWorkerEvent) => void): TreeWorker {
+  const worker = new Worker(new URL("./treeWorker.ts", import.meta.url), { type: "module" });
+  worker.onmessage = (e: MessageEvent<TreeWorkerEvent>) => onEvent(e.data);
+  worker.onerror = (e) => onEvent({ type: "error", message: e.message || "Tree worker failed to start" });
+  return {
+    post: (request) => worker.postMessage(request),
+    terminate: () => worker.terminate(),
+  };
+}
+
+/** Apply a `tokens` event to the main thread's copy of the token list. */
+export function mergeTokens(prev: TokenInfo[], update: { tokens: TokenInfo[]; reset: boolean }): TokenInfo[] {
+  if (update.reset) return update.tokens;
+  if (update.tokens.length === 0) return prev;
+  const changed = new Map(update.tokens.map((t) => [t.address.toLowerCase(), t]));
+  const next = prev.map((t) => {
+    const key = t.address.toLowerCase();
+    const fresh = changed.get(key);
+    if (!fresh) return t;
+    changed.delete(key);
+    return fresh;
+  });
+  return [...next, ...changed.values()];
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { maxUint256 } from "viem";
+import { formatExact, toUnits } from "./units";
+
+describe("formatExact", () => {
+  it("keeps every digit of a supply near 2^256 with 18 decimals", () => {
+    expect(formatExact(maxUint256, 18)).toBe("115792089237316195423570985008687907853269984665640564039457.584007913129639935");
+  });
+
+  it("formats a 1-wei supply", () => {
+    expect(formatExact(1n, 18)).toBe("0.000000000000000001");
+  });
+
+  it("formats a 0-decimals token as a whole number", () => {
+    expect(formatExact(1234n, 0)).toBe("1234");
+    expect(formatExact(0n, 0)).toBe("0");
+  });
+});
+
+describe("toUnits", () => {
+  it("converts a supply near 2^256 with 18 decimals to a finite float", () => {
+    const units = toUnits(maxUint256, 18);
+    expect(Number.isFinite(units)).toBe(true);
+    expect(units).toBeCloseTo(1.157920892373162e59, -45);
+  });
+
+  it("converts a 1-wei supply without rounding to zero", () => {
+    expect(toUnits(1n, 18)).toBe(1e-18);
+  });
+
+  it("leaves 0-decimals amounts unscaled", () => {
+    expect(toUnits(1234n, 0)).toBe(1234);
+  });
+});
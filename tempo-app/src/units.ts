@@ -0,0 +1,19 @@
+import { formatUnits } from "viem";
+
+// ── Token amounts ─────────────────────────────────────────────────
+//
+// Supplies are kept as raw base-unit bigints with the token's decimals and
+// only converted to floats for TVL math, filtering and display.
+
+/** TIP-20 default, used when a token's decimals() cannot be read. */
+export const DEFAULT_DECIMALS = 6;
+
+/** Whole-token amount as a float. Rounds beyond ~15 significant digits, which is fine for TVL and display. */
+export function toUnits(raw: bigint, decimals: number): number {
+  return Number(formatUnits(raw, decimals));
+}
+
+/** Exact decimal string of a raw amount, e.g. "1234.000001". */
+export function formatExact(raw: bigint, decimals: number): string {
+  return formatUnits(raw, decimals);
+}
@@ -0,0 +1,15 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** JSON array of NetworkSpec objects added to (or overriding) the built-in networks. */
+  readonly VITE_NETWORKS?: string;
+  /** Authorization header value for the mainnet RPC. */
+  readonly VITE_MAINNET_RPC_AUTH?: string;
+  /** Block explorer base URLs used for address and block links. */
+  readonly VITE_MAINNET_EXPLORER_URL?: string;
+  readonly VITE_TESTNET_EXPLORER_URL?: string;
+  /** Default request budget per network, when a network does not set its own. */
+  readonly VITE_RPC_REQUESTS_PER_SECOND?: string;
+  /** Network selected when the URL does not name one. */
+  readonly VITE_DEFAULT_NETWORK?: string;
+}
@@ -4,4 +4,8 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The tree worker imports viem, which code-splits; IIFE workers cannot
+  worker: {
+    format: 'es',
+  },
 })